@@ -3,14 +3,11 @@
  * Proves AI responses genuinely came from Anthropic using zkTLS
  */
 import "dotenv/config";
-import { ReclaimClient } from "@reclaimprotocol/zk-fetch";
-import { verifyProof } from "@reclaimprotocol/js-sdk";
+import { createVerifiableClaude } from "./src/index.js";
 
 // Suppress verbose logging
 process.env.LOG_LEVEL = "error";
 
-const ANTHROPIC_API_ENDPOINT = "https://api.anthropic.com/v1/messages";
-
 async function main() {
   console.log("");
   console.log("╔══════════════════════════════════════════════════════════════╗");
@@ -19,10 +16,12 @@ async function main() {
   console.log("╚══════════════════════════════════════════════════════════════╝");
   console.log("");
 
-  const client = new ReclaimClient(
-    process.env.RECLAIM_APP_ID!,
-    process.env.RECLAIM_APP_SECRET!
-  );
+  const client = createVerifiableClaude({
+    apiKey: process.env.ANTHROPIC_API_KEY!,
+    reclaimAppId: process.env.RECLAIM_APP_ID!,
+    reclaimAppSecret: process.env.RECLAIM_APP_SECRET!,
+    proofOptions: { useTee: true },
+  });
 
   const prompt = "What is the capital of France? Answer in exactly one sentence.";
 
@@ -32,49 +31,17 @@ async function main() {
   console.log("   (generating cryptographic proof in background)");
   console.log("");
 
-  const body = {
-    model: "claude-3-5-haiku-20241022",
-    max_tokens: 100,
-    messages: [{ role: "user", content: prompt }],
-  };
-
   try {
     const startTime = Date.now();
 
-    const proof = await client.zkFetch(
-      ANTHROPIC_API_ENDPOINT,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(body),
-        useTee: true,
-      },
-      {
-        headers: {
-          "anthropic-version": "2023-06-01",
-          "x-api-key": process.env.ANTHROPIC_API_KEY!,
-        },
-        responseMatches: [
-          {
-            type: "regex" as const,
-            value: '(?<response>\\{[\\s\\S]*?"content"[\\s\\S]*\\})',
-          },
-        ],
-      }
-    );
+    const result = await client.generate({
+      prompt,
+      model: "claude-3-5-haiku-20241022",
+      maxTokens: 100,
+    });
 
     const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
-
-    if (!proof) {
-      throw new Error("No proof returned");
-    }
-
-    // Parse the response
-    const responseJson = proof.extractedParameterValues?.response;
-    const response = JSON.parse(responseJson || "{}");
-    const text = response.content?.[0]?.text || "";
+    const { text, proof } = result;
 
     console.log("═══════════════════════════════════════════════════════════════");
     console.log("✅ RESPONSE RECEIVED WITH CRYPTOGRAPHIC PROOF");
@@ -83,16 +50,17 @@ async function main() {
     console.log("💬 Claude says:", text);
     console.log("");
     console.log("📜 Proof Details:");
-    console.log("   • Proof ID:   ", (proof as any).identifier?.slice(0, 24) + "...");
-    console.log("   • Generated:  ", new Date().toISOString());
+    console.log("   • Proof ID:   ", proof.identifier.slice(0, 24) + "...");
+    console.log("   • Generated:  ", new Date(result.timestamp).toISOString());
     console.log("   • Latency:    ", elapsed + "s");
-    console.log("   • Endpoint:   ", ANTHROPIC_API_ENDPOINT);
+    console.log("   • Endpoint:   ", result.attested.url);
+    console.log("   • Mode:       ", result.proofMode);
     console.log("   • Proof Size: ", JSON.stringify(proof).length, "bytes");
 
     // Verify the proof
     console.log("");
     console.log("🔍 Verifying proof...");
-    const isValid = await verifyProof(proof as any);
+    const { isValid } = await client.verify(result);
 
     console.log("");
     if (isValid) {
@@ -8,7 +8,11 @@
  */
 
 import "dotenv/config";
-import { createVerifiableClaude, VerifiableClaude } from "./src/index.js";
+import {
+  createVerifiableClaude,
+  VerifiableClaude,
+  VerifiableConversation,
+} from "./src/index.js";
 
 /**
  * Example: Basic verifiable chat with Claude
@@ -90,28 +94,21 @@ async function conversationExample() {
 
   console.log("\n--- Conversation Example ---\n");
 
-  // First turn
-  const result1 = await client.generate({
-    messages: [{ role: "user", content: "My name is Alice." }],
+  // Each turn sends the proven history back, chaining the proofs
+  const conversation = new VerifiableConversation(client, {
     model: "claude-3-5-haiku-20241022",
   });
+
+  const result1 = await conversation.send("My name is Alice.");
   console.log("Turn 1:", result1.text);
 
-  // Second turn (includes history)
-  const result2 = await client.generate({
-    messages: [
-      { role: "user", content: "My name is Alice." },
-      { role: "assistant", content: result1.text },
-      { role: "user", content: "What is my name?" },
-    ],
-    model: "claude-3-5-haiku-20241022",
-  });
+  const result2 = await conversation.send("What is my name?");
   console.log("Turn 2:", result2.text);
 
-  // Verify both turns
-  const v1 = await client.verify(result1);
-  const v2 = await client.verify(result2);
-  console.log("\nBoth turns verified:", v1.isValid && v2.isValid);
+  // Verify the whole transcript, including the links between turns
+  const transcript = conversation.exportTranscript();
+  const verification = await VerifiableConversation.verifyTranscript(transcript);
+  console.log("\nTranscript verified:", verification.isValid);
 }
 
 // Run examples
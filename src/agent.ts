@@ -0,0 +1,285 @@
+import type { Proof } from "@reclaimprotocol/js-sdk";
+import type { VerifiableClaude } from "./index.js";
+import type {
+  AgentActionError,
+  AgentRunResult,
+  AgentTool,
+  AgentTrace,
+  AgentTraceAction,
+  AgentTraceVerificationResult,
+  ClaudeGenerateOptions,
+  ContentBlock,
+  Message,
+  ToolResultBlock,
+  ToolUseBlock,
+  TranscriptLinkError,
+  VerifiableClaudeResult,
+  VerifyOptions,
+} from "./types.js";
+import { VerifiableConversation } from "./conversation.js";
+import { parseClaimParameters, parseProvenMessage } from "./verification.js";
+import { canonicalJson } from "./store.js";
+
+/**
+ * Options applied to every turn of an agent run
+ *
+ * Without `privatePrompt` or `disclose`, as for conversations: the trace
+ * is checked through the proven requests, and each turn is sent back as
+ * proven.
+ */
+export interface AgentOptions
+  extends Omit<
+    ClaudeGenerateOptions,
+    "messages" | "prompt" | "tools" | "privatePrompt" | "disclose"
+  > {
+  /** Most model turns per run (default: 10) */
+  maxTurns?: number;
+}
+
+/**
+ * The tool_result blocks of a proven request's last message
+ */
+function provenToolResults(proof: Proof): ToolResultBlock[] {
+  const body = parseClaimParameters(proof).body;
+  const messages: Message[] = body ? JSON.parse(body).messages ?? [] : [];
+  const last = messages[messages.length - 1];
+  if (last?.role !== "user" || !Array.isArray(last.content)) {
+    return [];
+  }
+  return last.content.filter(
+    (block): block is ToolResultBlock => block.type === "tool_result"
+  );
+}
+
+/**
+ * Check that an action was made by a proven turn and fed back to the next
+ *
+ * @returns Reason the action does not trace, or undefined if it does
+ */
+function checkAction(
+  action: AgentTraceAction,
+  proofs: (Proof | undefined)[]
+): string | undefined {
+  if (!(action.turn in proofs)) {
+    return `Turn ${action.turn} is not in the trace`;
+  }
+  const proof = proofs[action.turn];
+  if (!proof) {
+    return `Proof of turn ${action.turn} could not be parsed`;
+  }
+  const call = canonicalJson(action.toolUse);
+  const proven: ContentBlock[] = parseProvenMessage(proof).content ?? [];
+  if (!proven.some((block) => canonicalJson(block) === call)) {
+    return "Tool call is not in the proven response of its turn";
+  }
+  if (action.result.tool_use_id !== action.toolUse.id) {
+    return "Tool result answers a different tool call";
+  }
+
+  const next = proofs[action.turn + 1];
+  if (!next) {
+    return action.turn + 1 in proofs
+      ? `Proof of turn ${action.turn + 1} could not be parsed`
+      : "Tool result was not fed back to a proven turn";
+  }
+  const result = canonicalJson(action.result);
+  if (!provenToolResults(next).some((block) => canonicalJson(block) === result)) {
+    return "Tool result does not match the one fed back in the next turn";
+  }
+  return undefined;
+}
+
+/**
+ * VerifiableAgent - Tool-use loop with a proof behind every action
+ *
+ * Each turn is proven with `generate()`. The tool calls in a proven
+ * response are executed, their results are sent back, and the loop goes
+ * on until Claude stops calling tools. The trace records every executed
+ * call with the proofs of the turn that made it and of the turn its
+ * result was fed back in, so a third party can check that no action was
+ * taken without a proven model output asking for it.
+ *
+ * @example
+ * ```typescript
+ * const agent = new VerifiableAgent(client, [
+ *   {
+ *     name: "get_price",
+ *     description: "Current price of a ticker",
+ *     input_schema: { type: "object", properties: { ticker: { type: "string" } } },
+ *     run: async ({ ticker }) => String(await prices.get(ticker as string)),
+ *   },
+ * ]);
+ *
+ * const { text, trace } = await agent.run("Should we rebalance into ACME?");
+ * const verification = await VerifiableAgent.verifyTrace(trace);
+ * console.log("Every action proven:", verification.isValid);
+ * ```
+ */
+export class VerifiableAgent {
+  private client: VerifiableClaude;
+  private tools: AgentTool[];
+  private options: AgentOptions;
+
+  constructor(client: VerifiableClaude, tools: AgentTool[], options: AgentOptions = {}) {
+    this.client = client;
+    this.tools = tools;
+    this.options = options;
+  }
+
+  /**
+   * Run the tool-use loop from a user message
+   *
+   * Tool calls are executed in order. When `maxTurns` is reached, the
+   * calls in the last turn are not executed.
+   *
+   * @param content - The user message
+   * @returns The final text, every turn's result and the trace
+   */
+  async run(content: string | ContentBlock[]): Promise<AgentRunResult> {
+    const { maxTurns = 10, ...generateOptions } = this.options;
+    const tools = this.tools.map(({ run: _run, ...tool }) => tool);
+    const messages: Message[] = [{ role: "user", content }];
+    const turns: VerifiableClaudeResult[] = [];
+    const actions: AgentTraceAction[] = [];
+
+    for (;;) {
+      const result = await this.client.generate({ ...generateOptions, tools, messages });
+      turns.push(result);
+
+      const calls = result.content.filter(
+        (block): block is ToolUseBlock => block.type === "tool_use"
+      );
+      const finished = result.stopReason !== "tool_use" || calls.length === 0;
+      if (finished || turns.length >= maxTurns) {
+        return {
+          text: result.text,
+          stopReason: finished ? result.stopReason : "max_turns",
+          turns,
+          trace: {
+            turns: turns.map((turn) => this.client.serializeResult(turn)),
+            actions,
+          },
+        };
+      }
+
+      const results: ToolResultBlock[] = [];
+      for (const call of calls) {
+        const block = await this.execute(call);
+        actions.push({ turn: turns.length - 1, toolUse: call, result: block });
+        results.push(block);
+      }
+      // The assistant turn is sent back exactly as proven, to keep the chain
+      messages.push(
+        { role: "assistant", content: result.content },
+        { role: "user", content: results }
+      );
+    }
+  }
+
+  private async execute(call: ToolUseBlock): Promise<ToolResultBlock> {
+    const tool = this.tools.find((candidate) => candidate.name === call.name);
+    if (!tool) {
+      return {
+        type: "tool_result",
+        tool_use_id: call.id,
+        content: `Unknown tool '${call.name}'`,
+        is_error: true,
+      };
+    }
+    try {
+      return {
+        type: "tool_result",
+        tool_use_id: call.id,
+        content: await tool.run(call.input, call),
+      };
+    } catch (error) {
+      return {
+        type: "tool_result",
+        tool_use_id: call.id,
+        content: error instanceof Error ? error.message : String(error),
+        is_error: true,
+      };
+    }
+  }
+
+  /**
+   * Verify an agent trace end to end
+   *
+   * The turns must form a valid chain (see
+   * `VerifiableConversation.verifyTranscript()`). Every action must be a
+   * tool call in the proven response of its turn, with its result in the
+   * proven request of the next turn, and every tool result fed back must
+   * belong to a recorded action.
+   *
+   * @param trace - Trace returned by `run()`
+   * @param options - Verification options applied to every turn
+   * @returns Per-turn results, broken links and untraced actions
+   */
+  static async verifyTrace(
+    trace: AgentTrace,
+    options?: VerifyOptions
+  ): Promise<AgentTraceVerificationResult> {
+    const chain = await VerifiableConversation.verifyTranscript(
+      { turns: trace.turns },
+      options
+    );
+    const brokenLinks: TranscriptLinkError[] = [...chain.brokenLinks];
+    const untracedActions: AgentActionError[] = [];
+
+    // Unparsable proofs are already reported as broken links
+    const proofs = trace.turns.map((turn) => {
+      try {
+        return JSON.parse(turn.proofJson) as Proof;
+      } catch {
+        return undefined;
+      }
+    });
+
+    const calls = new Set<string>();
+    for (const [index, action] of trace.actions.entries()) {
+      if (calls.has(action.toolUse.id)) {
+        untracedActions.push({ action: index, reason: "Tool call is recorded twice" });
+        continue;
+      }
+      calls.add(action.toolUse.id);
+      try {
+        const reason = checkAction(action, proofs);
+        if (reason) {
+          untracedActions.push({ action: index, reason });
+        }
+      } catch (error) {
+        untracedActions.push({
+          action: index,
+          reason: error instanceof Error ? error.message : "Invalid action",
+        });
+      }
+    }
+
+    // Results fed back without a recorded action hide what was executed
+    const recorded = new Set(trace.actions.map((action) => canonicalJson(action.result)));
+    for (const [index, proof] of proofs.entries()) {
+      if (!proof) {
+        continue;
+      }
+      try {
+        for (const block of provenToolResults(proof)) {
+          if (!recorded.has(canonicalJson(block))) {
+            brokenLinks.push({
+              turn: index,
+              reason: `Tool result for '${block.tool_use_id}' has no recorded action`,
+            });
+          }
+        }
+      } catch {
+        // Unparsable requests are already reported as broken links
+      }
+    }
+
+    return {
+      isValid: chain.isValid && brokenLinks.length === 0 && untracedActions.length === 0,
+      turns: chain.turns,
+      brokenLinks,
+      untracedActions,
+    };
+  }
+}
@@ -0,0 +1,299 @@
+import { ethers } from "ethers";
+import { ReclaimClient } from "@reclaimprotocol/zk-fetch";
+import { verifyProof, Proof } from "@reclaimprotocol/js-sdk";
+import type { ProofBackend, ProofRequest } from "./types.js";
+import { TEE_ATTESTOR_URLS } from "./policy.js";
+import {
+  getClaimIdentifier,
+  getClaimSignData,
+  hasConsistentIdentifier,
+  hasManualWitness,
+  recoverSigners,
+} from "./claim.js";
+import { redactResponse } from "./matching.js";
+import { ResponseMatchError, WitnessError } from "./errors.js";
+
+/**
+ * Witness URL recorded on proofs signed by a LocalProofBackend
+ */
+export const LOCAL_WITNESS_URL = "local://witness";
+
+/**
+ * Reject if a promise does not settle within `ms`
+ */
+async function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () =>
+        reject(
+          new WitnessError(`Proof generation timed out after ${ms}ms`, {
+            code: "proof_timeout",
+          })
+        ),
+      ms
+    );
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Attestor messages for a response that failed its matches or redactions
+ */
+const MATCH_FAILURE = /\b(?:did not|didn't|does not|doesn't) (?:match|contain)\b|redact/i;
+
+/**
+ * Typed error for a failed zkFetch: a response that failed its rules, or
+ * else a witness or attestor failure
+ */
+function toZkFetchError(error: unknown): Error {
+  if (error instanceof WitnessError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return MATCH_FAILURE.test(message)
+    ? new ResponseMatchError(message, error)
+    : new WitnessError(`Attestor failed to produce a proof: ${message}`, { cause: error });
+}
+
+/**
+ * ReclaimBackend - Proofs from Reclaim Protocol's zkTLS attestors
+ */
+export class ReclaimBackend implements ProofBackend {
+  private reclaimClient: ReclaimClient;
+
+  constructor(appId: string, appSecret: string) {
+    this.reclaimClient = new ReclaimClient(appId, appSecret);
+  }
+
+  async fetchWithProof(request: ProofRequest): Promise<Proof> {
+    const options = request.options ?? {};
+    const fetching = this.reclaimClient.zkFetch(
+      request.url,
+      {
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        useTee: options.useTee,
+        geoLocation: options.geoLocation,
+        context: options.context,
+      },
+      {
+        headers: request.secretHeaders,
+        responseMatches: request.responseMatches,
+        responseRedactions: request.responseRedactions,
+        paramValues: request.secretParamValues,
+      },
+      options.retries,
+      options.retryInterval
+    );
+
+    let proof: unknown;
+    try {
+      proof = options.timeoutMs
+        ? await withTimeout(fetching, options.timeoutMs)
+        : await fetching;
+    } catch (error) {
+      throw toZkFetchError(error);
+    }
+
+    if (!proof) {
+      throw new WitnessError("Failed to generate proof - no proof returned");
+    }
+    return proof as Proof;
+  }
+
+  /**
+   * Check the signatures against Reclaim's witness registry. Proofs with
+   * inconsistent identifiers or "manual-verify" witnesses are rejected.
+   */
+  async verify(proof: Proof): Promise<boolean> {
+    if (!hasConsistentIdentifier(proof) || hasManualWitness(proof)) {
+      return false;
+    }
+    return verifyProof(proof);
+  }
+}
+
+/**
+ * Pick the configured backend, or a Reclaim backend from app credentials
+ */
+export function resolveBackend(config: {
+  backend?: ProofBackend;
+  reclaimAppId?: string;
+  reclaimAppSecret?: string;
+}): ProofBackend {
+  if (config.backend) {
+    return config.backend;
+  }
+  if (config.reclaimAppId && config.reclaimAppSecret) {
+    return new ReclaimBackend(config.reclaimAppId, config.reclaimAppSecret);
+  }
+  throw new Error(
+    "Either 'backend' or 'reclaimAppId' and 'reclaimAppSecret' must be provided"
+  );
+}
+
+/**
+ * Options for the local proof backend
+ */
+export interface LocalProofBackendOptions {
+  /** Witness private key (default: a freshly generated key) */
+  privateKey?: string;
+  /**
+   * Produce the response body for a request. Defaults to sending the
+   * request with `fetch`, so a real API key is still needed.
+   */
+  respond?: (request: ProofRequest) => string | Promise<string>;
+  /** Clock used for the claim time, in ms (default: Date.now) */
+  now?: () => number;
+}
+
+/**
+ * LocalProofBackend - Deterministic stand-in for tests and CI
+ *
+ * Signs claims with a local witness key and returns proofs shaped exactly
+ * like Reclaim's, with real identifiers and signatures. They only verify
+ * against a backend holding the same witness key, so they prove nothing
+ * to third parties. With `useTee`, the witness is recorded under the TEE
+ * attestor URL; list `witnessAddress` in a policy's `teeSigners` to
+ * exercise `requireTee`.
+ *
+ * @example
+ * ```typescript
+ * const backend = new LocalProofBackend({
+ *   respond: () => JSON.stringify({ id: "msg_01", type: "message", ... }),
+ * });
+ * const client = createVerifiableClaude({ apiKey: "unused", backend });
+ * const result = await client.chat("Hello");
+ * await client.verify(result); // isValid: true, fully offline
+ * ```
+ */
+export class LocalProofBackend implements ProofBackend {
+  private wallet: ethers.Wallet | ethers.HDNodeWallet;
+  private options: LocalProofBackendOptions;
+
+  constructor(options: LocalProofBackendOptions = {}) {
+    this.options = options;
+    this.wallet = options.privateKey
+      ? new ethers.Wallet(options.privateKey)
+      : ethers.Wallet.createRandom();
+  }
+
+  /**
+   * Address of the local witness key
+   */
+  get witnessAddress(): string {
+    return this.wallet.address.toLowerCase();
+  }
+
+  async fetchWithProof(request: ProofRequest): Promise<Proof> {
+    const responseBody = this.options.respond
+      ? await this.options.respond(request)
+      : await this.send(request);
+
+    // Matches only see the revealed parts of the response
+    let revealed = responseBody;
+    if (request.responseRedactions?.length) {
+      try {
+        revealed = redactResponse(responseBody, request.responseRedactions);
+      } catch (error) {
+        throw new ResponseMatchError(
+          error instanceof Error ? error.message : "Response redaction failed",
+          error
+        );
+      }
+    }
+
+    const extractedParameters: Record<string, string> = {};
+    for (const match of request.responseMatches) {
+      if (match.type === "contains") {
+        if (!revealed.includes(match.value)) {
+          throw new ResponseMatchError(`Response does not contain ${match.value}`);
+        }
+        continue;
+      }
+      const groups = new RegExp(match.value).exec(revealed);
+      if (!groups) {
+        throw new ResponseMatchError(`Response does not match regex ${match.value}`);
+      }
+      Object.assign(extractedParameters, groups.groups);
+    }
+
+    const parameters = JSON.stringify({
+      body: request.body,
+      headers: request.headers,
+      method: request.method,
+      responseMatches: request.responseMatches,
+      responseRedactions: request.responseRedactions,
+      url: request.url,
+    });
+    const context = JSON.stringify({
+      ...request.options?.context,
+      extractedParameters,
+      providerHash: ethers.keccak256(ethers.toUtf8Bytes(parameters)),
+    });
+    const identifier = getClaimIdentifier({
+      provider: "http",
+      parameters,
+      context,
+    });
+
+    const now = this.options.now ?? Date.now;
+    const claimData = {
+      provider: "http",
+      parameters,
+      owner: this.witnessAddress,
+      timestampS: Math.floor(now() / 1000),
+      context,
+      identifier,
+      epoch: 1,
+    };
+    const signature = await this.wallet.signMessage(
+      getClaimSignData(claimData)
+    );
+
+    return {
+      identifier,
+      claimData,
+      signatures: [signature],
+      witnesses: [
+        {
+          id: this.witnessAddress,
+          url: request.options?.useTee
+            ? TEE_ATTESTOR_URLS[0]
+            : LOCAL_WITNESS_URL,
+        },
+      ],
+      extractedParameterValues: extractedParameters,
+    };
+  }
+
+  async verify(proof: Proof): Promise<boolean> {
+    try {
+      if (!hasConsistentIdentifier(proof)) {
+        return false;
+      }
+      const signers = recoverSigners(proof);
+      return signers.length > 0 && signers.every((s) => s === this.witnessAddress);
+    } catch {
+      return false;
+    }
+  }
+
+  private async send(request: ProofRequest): Promise<string> {
+    const secrets = request.secretParamValues ?? {};
+    const response = await fetch(request.url, {
+      method: request.method,
+      headers: { ...request.headers, ...request.secretHeaders },
+      body: request.body.replace(/\{\{(\w+)\}\}/g, (placeholder, name) =>
+        name in secrets ? secrets[name] : placeholder
+      ),
+    });
+    return response.text();
+  }
+}
@@ -0,0 +1,343 @@
+import { createHash } from "crypto";
+import { appendFile, readFile } from "fs/promises";
+import type {
+  BatchJob,
+  BatchJobResult,
+  BatchProgressEvent,
+  BatchResult,
+  ClaudeGenerateOptions,
+  GenerationErrorCode,
+  PromptReveal,
+  SerializedClaudeProof,
+  VerifiableClaudeResult,
+} from "./types.js";
+import type { VerifiableClaude } from "./index.js";
+import { VerifiableGenerationError } from "./errors.js";
+import { canonicalJson } from "./store.js";
+
+/**
+ * Options for `generateBatch()`
+ */
+export interface BatchOptions {
+  /** Jobs generated at once (default: 4) */
+  concurrency?: number;
+  /** Retries per job after a failed attempt (default: 3) */
+  retries?: number;
+  /** Delay before the first retry in ms, doubled for each further retry (default: 1000) */
+  backoffMs?: number;
+  /** Longest delay before a retry in ms (default: 60000) */
+  maxBackoffMs?: number;
+  /**
+   * JSON Lines file recording finished jobs. Running the batch again with
+   * the same file skips every job that already has a proof. Prompt reveals
+   * of `privatePrompt` jobs are recorded too, so keep the file as private
+   * as the prompts.
+   */
+  statePath?: string;
+  /** Called for every progress event */
+  onProgress?: (event: BatchProgressEvent) => void;
+}
+
+/**
+ * Line of a batch state file
+ */
+type BatchStateEntry =
+  | {
+      type: "done";
+      id: string;
+      proof: SerializedClaudeProof;
+      promptReveal?: PromptReveal;
+    }
+  | {
+      type: "failed";
+      id: string;
+      attempts: number;
+      error: string;
+      errorCode?: GenerationErrorCode;
+    };
+
+/**
+ * Error codes that mean the account is sending too much (429 and 529)
+ */
+const RATE_LIMIT_CODES: GenerationErrorCode[] = ["api_rate_limited", "api_overloaded"];
+
+function isRateLimited(error: unknown): boolean {
+  return (
+    error instanceof VerifiableGenerationError &&
+    RATE_LIMIT_CODES.includes(error.code)
+  );
+}
+
+/**
+ * Whether another attempt could succeed, as the error itself says
+ */
+function isRetryable(error: unknown): boolean {
+  return error instanceof VerifiableGenerationError && error.retryable;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Id of a batch job: its own `id`, or a hash of its options
+ */
+export function getBatchJobId(job: BatchJob): string {
+  const { id, ...options } = job;
+  return id ?? createHash("sha256").update(canonicalJson(options)).digest("hex");
+}
+
+type BatchDoneEntry = Extract<BatchStateEntry, { type: "done" }>;
+
+/**
+ * Read the finished jobs recorded in a batch state file, by job id
+ */
+async function readDoneEntries(filePath: string): Promise<Map<string, BatchDoneEntry>> {
+  const done = new Map<string, BatchDoneEntry>();
+  let contents: string;
+  try {
+    contents = await readFile(filePath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return done;
+    }
+    throw error;
+  }
+
+  contents.split("\n").forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    let entry: BatchStateEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      throw new Error(`${filePath}:${index + 1}: invalid JSON`);
+    }
+    if (entry.type === "done") {
+      done.set(entry.id, entry);
+    }
+  });
+  return done;
+}
+
+/**
+ * Read the proofs recorded in a batch state file
+ *
+ * @returns Proofs by job id; empty if the file does not exist
+ */
+export async function readBatchState(
+  filePath: string
+): Promise<Map<string, SerializedClaudeProof>> {
+  const done = await readDoneEntries(filePath);
+  return new Map([...done].map(([id, entry]) => [id, entry.proof]));
+}
+
+/**
+ * BatchQueue - Runs batch jobs through a client with a fixed number of workers
+ */
+class BatchQueue {
+  private completed = 0;
+  private total = 0;
+  private pausedUntil = 0;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly client: Pick<VerifiableClaude, "generate" | "serializeResult">,
+    private readonly options: BatchOptions
+  ) {}
+
+  async run(jobs: BatchJob[]): Promise<BatchResult> {
+    const ids = jobs.map(getBatchJobId);
+    const seen = new Set<string>();
+    for (const id of ids) {
+      if (seen.has(id)) {
+        throw new Error(`Duplicate batch job id '${id}' (give repeated jobs distinct ids)`);
+      }
+      seen.add(id);
+    }
+
+    const saved = this.options.statePath
+      ? await readDoneEntries(this.options.statePath)
+      : new Map<string, BatchDoneEntry>();
+    const results: BatchJobResult[] = new Array(jobs.length);
+    const pending: number[] = [];
+    ids.forEach((id, index) => {
+      const entry = saved.get(id);
+      if (entry) {
+        results[index] = {
+          id,
+          status: "done",
+          proof: entry.proof,
+          resumed: true,
+          attempts: 0,
+        };
+        if (entry.promptReveal) {
+          results[index].promptReveal = entry.promptReveal;
+        }
+      } else {
+        pending.push(index);
+      }
+    });
+    this.total = jobs.length;
+    this.completed = jobs.length - pending.length;
+
+    let next = 0;
+    const worker = async () => {
+      while (next < pending.length) {
+        const index = pending[next++];
+        results[index] = await this.runJob(ids[index], jobs[index]);
+      }
+    };
+    const workers = Math.max(1, Math.min(this.options.concurrency ?? 4, pending.length));
+    await Promise.all(Array.from({ length: workers }, worker));
+    await this.writing;
+
+    return {
+      jobs: results,
+      succeeded: results.filter((job) => job.status === "done").length,
+      failed: results.filter((job) => job.status === "failed").length,
+      resumed: results.filter((job) => job.resumed).length,
+    };
+  }
+
+  private async runJob(id: string, job: BatchJob): Promise<BatchJobResult> {
+    const { id: _id, ...options } = job;
+    const retries = this.options.retries ?? 3;
+    const backoffMs = this.options.backoffMs ?? 1000;
+    const maxBackoffMs = this.options.maxBackoffMs ?? 60000;
+
+    for (let attempt = 1; ; attempt++) {
+      await this.waitForRateLimit();
+      this.emit({ type: "started", jobId: id, attempt });
+      let result: VerifiableClaudeResult;
+      try {
+        result = await this.client.generate(options as ClaudeGenerateOptions);
+      } catch (caught) {
+        const error = caught instanceof Error ? caught.message : String(caught);
+        const errorCode =
+          caught instanceof VerifiableGenerationError ? caught.code : undefined;
+        if (!isRetryable(caught) || attempt > retries) {
+          const stateError = await this.record({
+            type: "failed",
+            id,
+            attempts: attempt,
+            error,
+            errorCode,
+          });
+          this.completed++;
+          this.emit({ type: "failed", jobId: id, attempt, error });
+          const failed: BatchJobResult = {
+            id,
+            status: "failed",
+            resumed: false,
+            attempts: attempt,
+            error,
+            errorCode,
+          };
+          if (stateError) {
+            failed.stateError = stateError;
+          }
+          return failed;
+        }
+
+        const delayMs = Math.min(maxBackoffMs, backoffMs * 2 ** (attempt - 1));
+        if (isRateLimited(caught)) {
+          // Every worker waits, not just the one that was turned away
+          this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delayMs);
+          this.emit({ type: "rate_limited", jobId: id, attempt, delayMs, error });
+        } else {
+          this.emit({ type: "retrying", jobId: id, attempt, delayMs, error });
+          await sleep(delayMs);
+        }
+        continue;
+      }
+
+      // The proof is paid for: a failed write must not fail or repeat the job
+      const proof = this.client.serializeResult(result);
+      const entry: BatchDoneEntry = { type: "done", id, proof };
+      if (result.promptReveal) {
+        entry.promptReveal = result.promptReveal;
+      }
+      const stateError = await this.record(entry);
+      this.completed++;
+      this.emit({ type: "done", jobId: id, attempt });
+      const done: BatchJobResult = {
+        id,
+        status: "done",
+        proof,
+        result,
+        resumed: false,
+        attempts: attempt,
+      };
+      if (result.promptReveal) {
+        done.promptReveal = result.promptReveal;
+      }
+      if (stateError) {
+        done.stateError = stateError;
+      }
+      return done;
+    }
+  }
+
+  private async waitForRateLimit(): Promise<void> {
+    while (Date.now() < this.pausedUntil) {
+      await sleep(this.pausedUntil - Date.now());
+    }
+  }
+
+  private emit(event: Omit<BatchProgressEvent, "completed" | "total">): void {
+    this.options.onProgress?.({ ...event, completed: this.completed, total: this.total });
+  }
+
+  /**
+   * Append an entry to the state file
+   *
+   * @returns The write error message, or undefined if it was recorded
+   */
+  private record(entry: BatchStateEntry): Promise<string | undefined> {
+    const { statePath } = this.options;
+    if (!statePath) {
+      return Promise.resolve(undefined);
+    }
+    // Appends are chained so concurrent workers never interleave lines;
+    // a failed append is reported to its job and does not break the chain
+    const write = this.writing.then(() =>
+      appendFile(statePath, JSON.stringify(entry) + "\n", "utf-8")
+    );
+    this.writing = write.catch(() => undefined);
+    return write.then(
+      () => undefined,
+      (error) => `Could not write batch state: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Generate many proofs with bounded concurrency, retries and resumable state
+ *
+ * Errors marked `retryable` (witness and proof failures, overloads and
+ * other transient errors) are retried with exponential backoff; an
+ * Anthropic rate limit (429) or overload (529) pauses every worker for the
+ * backoff delay. Invalid jobs, response mismatches and permanent API
+ * errors (bad key, invalid request) fail at once.
+ *
+ * With `statePath`, each finished job is recorded as it completes, so a
+ * batch that was interrupted or partially failed can be run again with
+ * the same jobs and file: jobs with a proof are skipped and only the rest
+ * are generated.
+ *
+ * @param client - Client used for every generation
+ * @param jobs - Generation options, each with an optional stable `id`
+ * @param options - Concurrency, retry, state file and progress settings
+ * @returns Every job's outcome, in input order
+ */
+export async function generateBatch(
+  client: Pick<VerifiableClaude, "generate" | "serializeResult">,
+  jobs: BatchJob[],
+  options: BatchOptions = {}
+): Promise<BatchResult> {
+  return new BatchQueue(client, options).run(jobs);
+}
@@ -0,0 +1,312 @@
+import { createHash } from "crypto";
+import { deflateRawSync, inflateRawSync } from "zlib";
+import type {
+  JsonSchema,
+  ProofBundle,
+  ProviderVerifyOptions,
+  SerializedProof,
+  VerifiableResult,
+  VerificationResult,
+} from "./types.js";
+import { VerifiableInference } from "./inference.js";
+import { decodeCbor, encodeCbor } from "./cbor.js";
+import {
+  SERIALIZED_PROOF_SCHEMA,
+  formatSchemaErrors,
+  validateSchema,
+} from "./schema.js";
+import { canonicalJson } from "./store.js";
+import { failedVerification } from "./verification.js";
+
+/**
+ * Current proof bundle format version
+ */
+export const PROOF_BUNDLE_VERSION = 1;
+
+/**
+ * Prefix of the short string form, naming the format and version
+ */
+export const BUNDLE_STRING_PREFIX = "zkp1.";
+
+/**
+ * Largest decompressed size accepted for a bundle string (8 MiB)
+ */
+export const MAX_BUNDLE_BYTES = 8 * 1024 * 1024;
+
+const RECLAIM_PROOF_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    identifier: { type: "string" },
+    claimData: {
+      type: "object",
+      properties: {
+        provider: { type: "string" },
+        parameters: { type: "string" },
+        owner: { type: "string" },
+        timestampS: { type: "integer" },
+        context: { type: "string" },
+        identifier: { type: "string" },
+        epoch: { type: "integer" },
+      },
+      required: [
+        "provider",
+        "parameters",
+        "owner",
+        "timestampS",
+        "context",
+        "identifier",
+        "epoch",
+      ],
+    },
+    signatures: { type: "array", minItems: 1, items: { type: "string" } },
+    witnesses: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { id: { type: "string" }, url: { type: "string" } },
+        required: ["id", "url"],
+      },
+    },
+  },
+  required: ["identifier", "claimData", "signatures", "witnesses"],
+};
+
+/**
+ * Schema of a version 1 proof bundle
+ */
+export const PROOF_BUNDLE_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    version: { enum: [PROOF_BUNDLE_VERSION] },
+    provider: { type: "string", minLength: 1 },
+    proof: RECLAIM_PROOF_SCHEMA,
+    text: { type: "string" },
+    timestamp: { type: "number" },
+    model: { type: "string" },
+    messageId: { type: "string" },
+    request: SERIALIZED_PROOF_SCHEMA.properties!.request,
+    proofMode: { enum: ["zk", "tee"] },
+    inferenceProvider: { type: "string" },
+    origin: { type: "string" },
+  },
+  required: ["version", "provider", "proof", "text", "timestamp", "model"],
+  additionalProperties: false,
+};
+
+/**
+ * Create a bundle from a result or a serialized proof
+ */
+export function createProofBundle(
+  source: VerifiableResult | SerializedProof
+): ProofBundle {
+  const bundle: ProofBundle = {
+    version: PROOF_BUNDLE_VERSION,
+    provider: source.provider,
+    proof: "proofJson" in source ? JSON.parse(source.proofJson) : source.proof,
+    text: source.text,
+    timestamp: source.timestamp,
+    model: source.model,
+    messageId: source.messageId,
+    request: source.request,
+    proofMode: source.proofMode,
+    inferenceProvider: source.inferenceProvider,
+    origin: source.origin,
+  };
+  // Drop absent optional fields, so they never reach the encodings
+  return JSON.parse(JSON.stringify(bundle));
+}
+
+/**
+ * Strictly parse a proof bundle
+ *
+ * Accepts a bundle object, its JSON, or its short string form. Rejects
+ * unknown versions, missing or mistyped fields and unknown fields.
+ *
+ * @param input - Bundle object, JSON string or `zkp1.` string
+ * @returns The validated bundle
+ * @throws Error describing the first problem found
+ */
+export function parseProofBundle(input: unknown): ProofBundle {
+  let value = input;
+  if (typeof input === "string") {
+    const trimmed = input.trim();
+    if (trimmed.startsWith(BUNDLE_STRING_PREFIX)) {
+      return decodeBundleString(trimmed);
+    }
+    try {
+      value = JSON.parse(trimmed);
+    } catch {
+      throw new Error("Invalid proof bundle: not valid JSON");
+    }
+  }
+
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("Invalid proof bundle: must be an object");
+  }
+  const version = (value as { version?: unknown }).version;
+  if (version === undefined) {
+    throw new Error(
+      "Invalid proof bundle: missing 'version' (use migrateProofBundle() for SerializedProof objects)"
+    );
+  }
+  if (version !== PROOF_BUNDLE_VERSION) {
+    throw new Error(
+      `Unsupported proof bundle version ${JSON.stringify(version)} (supported: ${PROOF_BUNDLE_VERSION})`
+    );
+  }
+
+  const errors = validateSchema(value, PROOF_BUNDLE_SCHEMA);
+  if (errors.length > 0) {
+    throw new Error(`Invalid proof bundle: ${formatSchemaErrors(errors)}`);
+  }
+  return value as ProofBundle;
+}
+
+/**
+ * Convert a SerializedProof (or anything parseProofBundle accepts) to a bundle
+ *
+ * @param input - Legacy serialized proof or current bundle
+ * @returns The bundle, in the current version
+ * @throws Error if the input is neither
+ */
+export function migrateProofBundle(input: unknown): ProofBundle {
+  if (
+    input !== null &&
+    typeof input === "object" &&
+    !("version" in input) &&
+    "proofJson" in input
+  ) {
+    const errors = validateSchema(input, SERIALIZED_PROOF_SCHEMA);
+    if (errors.length > 0) {
+      throw new Error(`Invalid serialized proof: ${formatSchemaErrors(errors)}`);
+    }
+    let bundle: ProofBundle;
+    try {
+      bundle = createProofBundle(input as SerializedProof);
+    } catch {
+      throw new Error("Invalid serialized proof: proofJson is not valid JSON");
+    }
+    return parseProofBundle(bundle);
+  }
+  return parseProofBundle(input);
+}
+
+/**
+ * Convert a bundle back to a SerializedProof, for the existing verifiers
+ */
+export function bundleToSerializedProof(bundle: ProofBundle): SerializedProof {
+  if (bundle.provider !== "reclaim") {
+    throw new Error(`Unsupported proof provider '${bundle.provider}'`);
+  }
+  return {
+    proofJson: JSON.stringify(bundle.proof),
+    text: bundle.text,
+    timestamp: bundle.timestamp,
+    model: bundle.model,
+    messageId: bundle.messageId,
+    request: bundle.request,
+    provider: bundle.provider,
+    proofMode: bundle.proofMode,
+    inferenceProvider: bundle.inferenceProvider,
+    origin: bundle.origin,
+  };
+}
+
+/**
+ * Canonical JSON of a bundle: sorted keys, no whitespace
+ */
+export function encodeBundleJson(bundle: ProofBundle): string {
+  return canonicalJson(bundle);
+}
+
+/**
+ * Hex SHA-256 of a bundle's canonical JSON
+ */
+export function getBundleHash(bundle: ProofBundle): string {
+  return createHash("sha256").update(encodeBundleJson(bundle)).digest("hex");
+}
+
+/**
+ * Deterministic CBOR encoding of a bundle
+ */
+export function encodeBundleCbor(bundle: ProofBundle): Uint8Array {
+  return encodeCbor(bundle);
+}
+
+/**
+ * Decode and strictly parse a CBOR-encoded bundle
+ */
+export function decodeBundleCbor(bytes: Uint8Array): ProofBundle {
+  return parseProofBundle(decodeCbor(bytes));
+}
+
+/**
+ * Short string form for URLs and QR codes
+ *
+ * `zkp1.` followed by the base64url of the deflated CBOR encoding.
+ *
+ * @example
+ * ```typescript
+ * const link = `https://verify.example.com/#${encodeBundleString(bundle)}`;
+ * ```
+ */
+export function encodeBundleString(bundle: ProofBundle): string {
+  const compressed = deflateRawSync(encodeBundleCbor(bundle), { level: 9 });
+  return BUNDLE_STRING_PREFIX + compressed.toString("base64url");
+}
+
+/**
+ * Decode and strictly parse a bundle's short string form
+ *
+ * @param value - The `zkp1.` string
+ * @param maxBytes - Largest decompressed size accepted, against deflate bombs
+ */
+export function decodeBundleString(
+  value: string,
+  maxBytes = MAX_BUNDLE_BYTES
+): ProofBundle {
+  if (!value.startsWith(BUNDLE_STRING_PREFIX)) {
+    throw new Error(
+      `Invalid proof bundle string: expected prefix '${BUNDLE_STRING_PREFIX}'`
+    );
+  }
+  const payload = value.slice(BUNDLE_STRING_PREFIX.length);
+  if (!/^[A-Za-z0-9_-]+$/.test(payload)) {
+    throw new Error("Invalid proof bundle string: not base64url");
+  }
+  let bytes: Uint8Array;
+  try {
+    bytes = inflateRawSync(Buffer.from(payload, "base64url"), {
+      maxOutputLength: maxBytes,
+    });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+      throw new Error(`Invalid proof bundle string: exceeds ${maxBytes} bytes`);
+    }
+    throw new Error("Invalid proof bundle string: corrupt data");
+  }
+  return decodeBundleCbor(bytes);
+}
+
+/**
+ * Verify a proof bundle
+ *
+ * @param bundle - Bundle (any form accepted by `parseProofBundle()`)
+ * @param options - Verification options
+ * @returns Verification result; invalid if the bundle cannot be parsed
+ */
+export async function verifyProofBundle(
+  bundle: unknown,
+  options?: ProviderVerifyOptions
+): Promise<VerificationResult> {
+  let serialized: SerializedProof;
+  try {
+    serialized = bundleToSerializedProof(parseProofBundle(bundle));
+  } catch (error) {
+    return failedVerification(
+      "malformed_proof",
+      error instanceof Error ? error.message : "Invalid proof bundle"
+    );
+  }
+  return VerifiableInference.verifySerializedProof(serialized, options);
+}
@@ -0,0 +1,203 @@
+/**
+ * Minimal CBOR (RFC 8949) codec for JSON-compatible values
+ *
+ * Encodes maps with keys in bytewise order of their encodings (the
+ * deterministic ordering of RFC 8949 section 4.2.1), so equal values
+ * always produce identical bytes. Supports exactly the JSON data model:
+ * integers, floats, strings, booleans, null, arrays and string-keyed maps.
+ */
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder("utf-8", { fatal: true });
+
+function encodeHead(major: number, value: number): Uint8Array {
+  if (value < 24) {
+    return Uint8Array.of((major << 5) | value);
+  }
+  if (value < 0x100) {
+    return Uint8Array.of((major << 5) | 24, value);
+  }
+  if (value < 0x10000) {
+    return Uint8Array.of((major << 5) | 25, value >> 8, value & 0xff);
+  }
+  if (value < 0x100000000) {
+    const head = new Uint8Array(5);
+    head[0] = (major << 5) | 26;
+    new DataView(head.buffer).setUint32(1, value);
+    return head;
+  }
+  const head = new Uint8Array(9);
+  head[0] = (major << 5) | 27;
+  new DataView(head.buffer).setBigUint64(1, BigInt(value));
+  return head;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+function encodeItem(value: unknown): Uint8Array {
+  if (value === null) return Uint8Array.of(0xf6);
+  if (value === false) return Uint8Array.of(0xf4);
+  if (value === true) return Uint8Array.of(0xf5);
+
+  if (typeof value === "number") {
+    if (Number.isSafeInteger(value)) {
+      return value >= 0 ? encodeHead(0, value) : encodeHead(1, -1 - value);
+    }
+    if (!Number.isFinite(value)) {
+      throw new Error(`Cannot encode ${value} as CBOR`);
+    }
+    const float = new Uint8Array(9);
+    float[0] = 0xfb;
+    new DataView(float.buffer).setFloat64(1, value);
+    return float;
+  }
+
+  if (typeof value === "string") {
+    const bytes = textEncoder.encode(value);
+    return concat([encodeHead(3, bytes.length), bytes]);
+  }
+
+  if (Array.isArray(value)) {
+    return concat([
+      encodeHead(4, value.length),
+      ...value.map((item) => encodeItem(item ?? null)),
+    ]);
+  }
+
+  if (typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .map(([key, item]) => [encodeItem(key), encodeItem(item)])
+      .sort(([a], [b]) => compareBytes(a, b));
+    return concat([encodeHead(5, entries.length), ...entries.flat()]);
+  }
+
+  throw new Error(`Cannot encode ${typeof value} as CBOR`);
+}
+
+/**
+ * Encode a JSON-compatible value as deterministic CBOR
+ */
+export function encodeCbor(value: unknown): Uint8Array {
+  return encodeItem(value);
+}
+
+/**
+ * Decode CBOR produced by `encodeCbor()`
+ *
+ * Rejects truncated input, trailing bytes, and any type outside the JSON
+ * data model (byte strings, tags, undefined, non-string map keys).
+ */
+export function decodeCbor(bytes: Uint8Array): unknown {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+
+  const need = (count: number) => {
+    if (offset + count > bytes.length) {
+      throw new Error("Invalid CBOR: unexpected end of input");
+    }
+  };
+
+  const readLength = (info: number): number => {
+    if (info < 24) return info;
+    switch (info) {
+      case 24:
+        need(1);
+        return bytes[offset++];
+      case 25:
+        need(2);
+        offset += 2;
+        return view.getUint16(offset - 2);
+      case 26:
+        need(4);
+        offset += 4;
+        return view.getUint32(offset - 4);
+      case 27: {
+        need(8);
+        offset += 8;
+        const value = view.getBigUint64(offset - 8);
+        if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+          throw new Error("Invalid CBOR: integer out of range");
+        }
+        return Number(value);
+      }
+      default:
+        throw new Error(`Invalid CBOR: unsupported length encoding ${info}`);
+    }
+  };
+
+  const readItem = (): unknown => {
+    need(1);
+    const initial = bytes[offset++];
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    switch (major) {
+      case 0:
+        return readLength(info);
+      case 1:
+        return -1 - readLength(info);
+      case 3: {
+        const length = readLength(info);
+        need(length);
+        offset += length;
+        return textDecoder.decode(bytes.subarray(offset - length, offset));
+      }
+      case 4: {
+        const length = readLength(info);
+        const items: unknown[] = [];
+        for (let i = 0; i < length; i++) items.push(readItem());
+        return items;
+      }
+      case 5: {
+        const length = readLength(info);
+        const map: Record<string, unknown> = {};
+        for (let i = 0; i < length; i++) {
+          const key = readItem();
+          if (typeof key !== "string") {
+            throw new Error("Invalid CBOR: map keys must be strings");
+          }
+          // Assigning it would replace the map's prototype
+          if (key === "__proto__") {
+            throw new Error("Invalid CBOR: '__proto__' map key");
+          }
+          map[key] = readItem();
+        }
+        return map;
+      }
+      case 7:
+        if (info === 20) return false;
+        if (info === 21) return true;
+        if (info === 22) return null;
+        if (info === 27) {
+          need(8);
+          offset += 8;
+          return view.getFloat64(offset - 8);
+        }
+        throw new Error(`Invalid CBOR: unsupported simple value ${info}`);
+      default:
+        throw new Error(`Invalid CBOR: unsupported major type ${major}`);
+    }
+  };
+
+  const value = readItem();
+  if (offset !== bytes.length) {
+    throw new Error("Invalid CBOR: trailing bytes");
+  }
+  return value;
+}
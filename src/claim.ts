@@ -0,0 +1,69 @@
+import { ethers } from "ethers";
+import type { Proof, ProviderClaimData } from "@reclaimprotocol/js-sdk";
+
+/**
+ * Compute a claim identifier the way Reclaim does:
+ * keccak256 of provider, parameters and context joined by newlines
+ */
+export function getClaimIdentifier(info: {
+  provider: string;
+  parameters: string;
+  context?: string;
+}): string {
+  const str = `${info.provider}\n${info.parameters}\n${info.context || ""}`;
+  return ethers.keccak256(ethers.toUtf8Bytes(str)).toLowerCase();
+}
+
+/**
+ * Witness URL for which Reclaim's `verifyProof` takes the expected signer
+ * from the proof itself instead of the witness registry
+ */
+export const MANUAL_VERIFY_WITNESS_URL = "manual-verify";
+
+/**
+ * Whether a proof's identifier and its claim's identifier are both the
+ * identifier computed from the claim
+ *
+ * The signatures cover `claimData.identifier`, while Reclaim only compares
+ * the computed identifier with `proof.identifier`, so both must be checked.
+ */
+export function hasConsistentIdentifier(proof: Proof): boolean {
+  const identifier = getClaimIdentifier(proof.claimData);
+  return (
+    proof.identifier?.toLowerCase() === identifier &&
+    proof.claimData.identifier?.toLowerCase() === identifier
+  );
+}
+
+/**
+ * Whether any witness on a proof is a "manual-verify" witness, which
+ * anyone can produce by signing with their own key
+ */
+export function hasManualWitness(proof: Proof): boolean {
+  return (proof.witnesses ?? []).some(
+    (witness) => witness.url === MANUAL_VERIFY_WITNESS_URL
+  );
+}
+
+/**
+ * The message witnesses sign for a claim, as in Reclaim's
+ * `createSignDataForClaim`: identifier, owner, timestampS and epoch
+ */
+export function getClaimSignData(claimData: ProviderClaimData): string {
+  return [
+    claimData.identifier,
+    claimData.owner.toLowerCase(),
+    claimData.timestampS.toString(),
+    claimData.epoch.toString(),
+  ].join("\n");
+}
+
+/**
+ * Recover the addresses that produced the witness signatures on a proof
+ */
+export function recoverSigners(proof: Proof): string[] {
+  const signData = getClaimSignData(proof.claimData);
+  return proof.signatures.map((signature) =>
+    ethers.verifyMessage(signData, signature).toLowerCase()
+  );
+}
@@ -0,0 +1,468 @@
+#!/usr/bin/env node
+/**
+ * zkproof - Command-line tool for generating, verifying, inspecting and
+ * converting verifiable inference proofs
+ *
+ * Reads proofs in any format (SerializedProof JSON, bundle JSON, `zkp1.`
+ * string or CBOR) from a file or stdin. Exit codes: 0 success, 1 failure
+ * (including an invalid proof), 2 usage error.
+ */
+import { realpathSync } from "fs";
+import { readFile, writeFile } from "fs/promises";
+import { pathToFileURL } from "url";
+import { parseArgs } from "util";
+import type {
+  ClaudeModel,
+  ProofBundle,
+  ProviderVerifyOptions,
+  SerializedProof,
+  VerificationPolicy,
+  VerificationResult,
+} from "./types.js";
+import { createVerifiableClaude } from "./index.js";
+import { VerifiableInference } from "./inference.js";
+import {
+  bundleToSerializedProof,
+  createProofBundle,
+  decodeBundleCbor,
+  encodeBundleCbor,
+  encodeBundleJson,
+  encodeBundleString,
+  getBundleHash,
+  migrateProofBundle,
+} from "./bundle.js";
+import { encodeOnchainProof } from "./onchain.js";
+import { VerifiableGenerationError } from "./errors.js";
+import {
+  getAttestedOrigin,
+  getSignedExtractedParameters,
+} from "./verification.js";
+
+const USAGE = `Usage: zkproof <command> [options]
+
+Commands:
+  generate [prompt]   Generate a response with a proof
+  verify [file]       Verify a proof (exit code 1 if invalid)
+  inspect [file]      Show a proof's claim, witnesses and attested origin
+  export [file]       Convert a proof to another format
+
+Proofs are read from [file], or stdin if it is omitted or "-".
+
+generate options:
+  --prompt-file <file>   Read the prompt from a file (default: argument or stdin)
+  --model <model>        Claude model (default: claude-3-5-sonnet-20241022)
+  --max-tokens <n>       Maximum tokens to generate
+  --system <text>        System prompt
+  --system-file <file>   Read the system prompt from a file
+  --tee                  Generate the proof in Reclaim's TEE
+  --to <format>          Output format (default: serialized)
+  --out <file>           Write the proof to a file (default: stdout)
+  Credentials: ANTHROPIC_API_KEY, RECLAIM_APP_ID, RECLAIM_APP_SECRET
+
+verify options:
+  --max-age <seconds>    Reject proofs older than this
+  --model <model>        Accept only this model (repeatable)
+  --host <host>          Accept this origin host (repeatable)
+  --signer <address>     Accept only this witness signer (repeatable)
+  --require-tee          Require a TEE attestor (with --tee-signer)
+  --tee-signer <address> Trusted TEE attestor address (repeatable)
+  --min-signatures <n>   Require at least n witness signatures
+
+export options:
+  --to <format>          serialized | bundle | string | cbor | calldata
+  --out <file>           Write to a file (default: stdout)
+
+Common options:
+  --json                 Machine-readable output
+  -h, --help             Show this help
+`;
+
+/**
+ * Output formats of `export` and `generate`
+ */
+const EXPORT_FORMATS = ["serialized", "bundle", "string", "cbor", "calldata"] as const;
+type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * A command-line mistake: reported with the usage hint and exit code 2
+ */
+class UsageError extends Error {}
+
+async function readStdin(): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+async function readInput(file: string | undefined): Promise<Buffer> {
+  return !file || file === "-" ? readStdin() : readFile(file);
+}
+
+/**
+ * Parse a proof in any supported format
+ */
+function parseProofInput(bytes: Buffer): ProofBundle {
+  const text = bytes.toString("utf-8").trim();
+  if (text.startsWith("{") || text.startsWith("zkp1.")) {
+    // migrateProofBundle accepts SerializedProof, bundle JSON and zkp1 strings
+    return migrateProofBundle(text.startsWith("{") ? JSON.parse(text) : text);
+  }
+  return decodeBundleCbor(bytes);
+}
+
+/**
+ * Encode a bundle in an export format
+ */
+function encodeProof(bundle: ProofBundle, format: ExportFormat): string | Uint8Array {
+  switch (format) {
+    case "serialized":
+      return JSON.stringify(bundleToSerializedProof(bundle), null, 2) + "\n";
+    case "bundle":
+      return encodeBundleJson(bundle) + "\n";
+    case "string":
+      return encodeBundleString(bundle) + "\n";
+    case "cbor":
+      return encodeBundleCbor(bundle);
+    case "calldata":
+      return encodeOnchainProof(bundleToSerializedProof(bundle)).calldata + "\n";
+  }
+}
+
+function parseFormat(value: string | undefined): ExportFormat {
+  const format = value ?? "serialized";
+  if (!(EXPORT_FORMATS as readonly string[]).includes(format)) {
+    throw new UsageError(
+      `Unknown format '${format}' (use ${EXPORT_FORMATS.join(", ")})`
+    );
+  }
+  return format as ExportFormat;
+}
+
+function parseNumber(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0) {
+    throw new UsageError(`--${name} must be a non-negative number`);
+  }
+  return number;
+}
+
+function parsePositiveInteger(
+  name: string,
+  value: string | undefined
+): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isSafeInteger(number) || number < 1) {
+    throw new UsageError(`--${name} must be a positive integer`);
+  }
+  return number;
+}
+
+async function writeOutput(data: string | Uint8Array, out: string | undefined) {
+  if (out) {
+    await writeFile(out, data);
+  } else {
+    process.stdout.write(data);
+  }
+}
+
+function print(line: string) {
+  process.stdout.write(line + "\n");
+}
+
+function printJson(value: unknown) {
+  print(JSON.stringify(value, null, 2));
+}
+
+async function generate(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      "prompt-file": { type: "string" },
+      model: { type: "string" },
+      "max-tokens": { type: "string" },
+      system: { type: "string" },
+      "system-file": { type: "string" },
+      tee: { type: "boolean" },
+      to: { type: "string" },
+      out: { type: "string" },
+      json: { type: "boolean" },
+    },
+  });
+  const format = parseFormat(values.to);
+  const maxTokens = parsePositiveInteger("max-tokens", values["max-tokens"]);
+
+  const prompt = positionals.length
+    ? positionals.join(" ")
+    : values["prompt-file"]
+      ? await readFile(values["prompt-file"], "utf-8")
+      : process.stdin.isTTY
+        ? ""
+        : (await readStdin()).toString("utf-8");
+  if (!prompt.trim()) {
+    throw new UsageError("No prompt given (pass it as an argument, --prompt-file or stdin)");
+  }
+  const system = values["system-file"]
+    ? await readFile(values["system-file"], "utf-8")
+    : values.system;
+
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    throw new UsageError("ANTHROPIC_API_KEY is not set");
+  }
+  const client = createVerifiableClaude({
+    apiKey,
+    reclaimAppId: process.env.RECLAIM_APP_ID,
+    reclaimAppSecret: process.env.RECLAIM_APP_SECRET,
+    proofOptions: { useTee: values.tee },
+  });
+
+  const result = await client.generate({
+    prompt,
+    model: values.model as ClaudeModel | undefined,
+    maxTokens,
+    system,
+  });
+  const bundle = createProofBundle(client.serializeResult(result));
+  await writeOutput(encodeProof(bundle, format), values.out);
+
+  // With the proof on stdout, only human-readable notes go to stderr
+  const summary = {
+    id: getBundleHash(bundle),
+    model: result.model,
+    text: result.text,
+    origin: result.origin,
+    proofMode: result.proofMode,
+    out: values.out,
+  };
+  if (values.json) {
+    if (values.out) printJson(summary);
+  } else {
+    const note = values.out ? print : (line: string) => process.stderr.write(line + "\n");
+    const written = values.out ? ` written to ${values.out}` : "";
+    note(result.text);
+    note(`\nProof ${summary.id} (${result.proofMode}, ${result.origin})${written}`);
+  }
+  return 0;
+}
+
+function printVerification(result: VerificationResult) {
+  print(result.isValid ? "✓ Proof is valid" : `✗ Proof is invalid: ${result.error}`);
+  print(`  Signatures  ${result.signatureValid ? "valid" : "invalid"}`);
+  if (result.attested) {
+    print(`  Origin      ${result.attested.host}${result.originAllowed ? "" : " (not allowed)"}`);
+  }
+  for (const [field, mismatch] of Object.entries(result.mismatches)) {
+    print(`  Mismatch    ${field}: claimed ${mismatch?.expected}, proven ${mismatch?.actual}`);
+  }
+  const rules = [...(result.policy?.passed ?? []), ...(result.policy?.failed ?? [])];
+  for (const rule of rules) {
+    print(`  Policy      ${rule.passed ? "✓" : "✗"} ${rule.rule}: ${rule.detail}`);
+  }
+}
+
+async function verify(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      "max-age": { type: "string" },
+      model: { type: "string", multiple: true },
+      host: { type: "string", multiple: true },
+      signer: { type: "string", multiple: true },
+      "require-tee": { type: "boolean" },
+      "tee-signer": { type: "string", multiple: true },
+      "min-signatures": { type: "string" },
+      json: { type: "boolean" },
+    },
+  });
+
+  const policy: VerificationPolicy = {};
+  const maxAge = parseNumber("max-age", values["max-age"]);
+  const minSignatures = parsePositiveInteger(
+    "min-signatures",
+    values["min-signatures"]
+  );
+  if (maxAge !== undefined) policy.maxAgeSeconds = maxAge;
+  if (minSignatures !== undefined) policy.minSignatures = minSignatures;
+  if (values.model) policy.allowedModels = values.model as ClaudeModel[];
+  if (values.signer) policy.allowedSigners = values.signer;
+  if (values["require-tee"]) policy.requireTee = true;
+  if (values["tee-signer"]) policy.teeSigners = values["tee-signer"];
+
+  const options: ProviderVerifyOptions = {};
+  if (values.host) options.allowedHosts = values.host;
+  if (Object.keys(policy).length > 0) options.policy = policy;
+
+  const serialized = bundleToSerializedProof(
+    parseProofInput(await readInput(positionals[0]))
+  );
+  const result = await VerifiableInference.verifySerializedProof(serialized, options);
+
+  if (values.json) {
+    printJson(result);
+  } else {
+    printVerification(result);
+  }
+  return result.isValid ? 0 : 1;
+}
+
+/**
+ * Readable summary of a proof
+ */
+function describeProof(bundle: ProofBundle, serialized: SerializedProof) {
+  const { proof } = bundle;
+  const attested = getAttestedOrigin(proof);
+  const extracted = getSignedExtractedParameters(proof);
+  return {
+    id: getBundleHash(bundle),
+    identifier: proof.identifier,
+    attested: {
+      method: attested.method,
+      url: attested.url,
+      host: attested.host,
+      time: new Date(attested.timestampS * 1000).toISOString(),
+    },
+    claim: {
+      provider: proof.claimData.provider,
+      owner: proof.claimData.owner,
+      timestampS: proof.claimData.timestampS,
+      epoch: proof.claimData.epoch,
+      context: JSON.parse(proof.claimData.context || "{}"),
+    },
+    witnesses: proof.witnesses,
+    signatures: proof.signatures.length,
+    extractedParameters: Object.keys(extracted),
+    inference: {
+      provider: serialized.inferenceProvider ?? "anthropic",
+      model: serialized.model,
+      messageId: serialized.messageId,
+      proofMode: serialized.proofMode ?? "zk",
+      text: serialized.text,
+    },
+  };
+}
+
+async function inspect(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: { json: { type: "boolean" } },
+  });
+  const bundle = parseProofInput(await readInput(positionals[0]));
+  const info = describeProof(bundle, bundleToSerializedProof(bundle));
+
+  if (values.json) {
+    printJson(info);
+    return 0;
+  }
+  const context = { ...info.claim.context };
+  delete context.extractedParameters;
+  print(`Proof       ${info.id}`);
+  print(`Identifier  ${info.identifier}`);
+  print(`Attested    ${info.attested.method} ${info.attested.url}`);
+  print(`Time        ${info.attested.time} (timestampS ${info.claim.timestampS})`);
+  print(`Claim       provider ${info.claim.provider}, epoch ${info.claim.epoch}, owner ${info.claim.owner}`);
+  print(`Context     ${JSON.stringify(context)}`);
+  print(`Extracted   ${info.extractedParameters.join(", ")}`);
+  print(`Witnesses   ${info.witnesses.length} (${info.signatures} signature${info.signatures === 1 ? "" : "s"})`);
+  for (const witness of info.witnesses) {
+    print(`            ${witness.id} ${witness.url}`);
+  }
+  print(`Inference   ${info.inference.provider} ${info.inference.model} (${info.inference.proofMode})`);
+  if (info.inference.messageId) {
+    print(`Message     ${info.inference.messageId}`);
+  }
+  print(`Text        ${info.inference.text}`);
+  return 0;
+}
+
+async function exportProof(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      to: { type: "string" },
+      out: { type: "string" },
+      json: { type: "boolean" },
+    },
+  });
+  if (!values.to) {
+    throw new UsageError(`--to is required (${EXPORT_FORMATS.join(", ")})`);
+  }
+  const format = parseFormat(values.to);
+  const bundle = parseProofInput(await readInput(positionals[0]));
+  await writeOutput(encodeProof(bundle, format), values.out);
+  if (values.out) {
+    if (values.json) {
+      printJson({ id: getBundleHash(bundle), format, out: values.out });
+    } else {
+      print(`Wrote ${format} proof ${getBundleHash(bundle)} to ${values.out}`);
+    }
+  }
+  return 0;
+}
+
+const COMMANDS: Record<string, (args: string[]) => Promise<number>> = {
+  generate,
+  verify,
+  inspect,
+  export: exportProof,
+};
+
+/**
+ * Run the CLI
+ *
+ * @param argv - Arguments after the executable, e.g. `["verify", "proof.json"]`
+ * @returns Process exit code
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  const [command, ...args] = argv;
+  if (!command || command === "-h" || command === "--help" || args.includes("--help") || args.includes("-h")) {
+    process.stdout.write(USAGE);
+    return command ? 0 : 2;
+  }
+  const run = COMMANDS[command];
+  if (!run) {
+    process.stderr.write(`zkproof: unknown command '${command}'\n\n${USAGE}`);
+    return 2;
+  }
+
+  try {
+    return await run(args);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    // parseArgs reports unknown or malformed options as TypeErrors with a code
+    const usage =
+      error instanceof UsageError ||
+      (error as NodeJS.ErrnoException).code?.startsWith("ERR_PARSE_ARGS");
+    const code = error instanceof VerifiableGenerationError ? ` [${error.code}]` : "";
+    process.stderr.write(`zkproof ${command}: ${message}${code}\n`);
+    if (usage) {
+      process.stderr.write(`Run 'zkproof --help' for usage.\n`);
+    }
+    return usage ? 2 : 1;
+  }
+}
+
+// Only run as the zkproof binary, not when imported
+if (
+  process.argv[1] &&
+  import.meta.url === pathToFileURL(realpathSync(process.argv[1])).href
+) {
+  // SDKs log through console; keep that off stdout, where results go
+  console.log = console.info = console.warn = console.error;
+
+  // Exit explicitly, since SDK network clients can keep the event loop
+  // alive, but only once stdout has flushed so piped output is not cut off
+  process.exitCode = await runCli(process.argv.slice(2));
+  process.stdout.write("", () => process.exit());
+}
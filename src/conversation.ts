@@ -0,0 +1,245 @@
+import type { Proof } from "@reclaimprotocol/js-sdk";
+import type { VerifiableClaude } from "./index.js";
+import type {
+  ClaudeGenerateOptions,
+  ContentBlock,
+  ConversationTranscript,
+  Message,
+  TranscriptLinkError,
+  TranscriptVerificationResult,
+  VerifiableClaudeResult,
+  VerifyOptions,
+} from "./types.js";
+import {
+  failedVerification,
+  parseClaimParameters,
+  parseProvenMessage,
+  verifyClaudeProof,
+} from "./verification.js";
+
+/**
+ * Options applied to every turn of a conversation
+ *
+ * `privatePrompt` is not available: it hides the earlier turns in each
+ * proven request, so the chain between turns could not be checked. Nor
+ * is `disclose`: each assistant turn is sent back exactly as proven, and a
+ * partly disclosed response is not a valid message.
+ */
+export type ConversationOptions = Omit<
+  ClaudeGenerateOptions,
+  "messages" | "prompt" | "privatePrompt" | "disclose"
+>;
+
+/**
+ * Parse the `messages` array of the proven request body
+ */
+function provenMessages(proof: Proof): unknown[] {
+  const body = parseClaimParameters(proof).body;
+  const messages = body ? JSON.parse(body).messages : undefined;
+  if (!Array.isArray(messages)) {
+    throw new Error("Proven request body has no messages array");
+  }
+  return messages;
+}
+
+/**
+ * Check that a turn's proven request continues the previous proven turn
+ *
+ * The request must repeat the previous proven request's messages exactly,
+ * followed by the previous proven response as the assistant message.
+ * Any assistant message outside that chain was never proven, so the
+ * first turn and the new messages of later turns may not contain one.
+ *
+ * @param previous - Proof of the previous turn (undefined for the first turn)
+ * @param proof - Proof of this turn
+ * @returns Reason the link is broken, or undefined if it holds
+ */
+export function checkTurnLink(
+  previous: Proof | undefined,
+  proof: Proof
+): string | undefined {
+  const messages = provenMessages(proof);
+  const hasAssistant = (list: unknown[]) =>
+    list.some((message) => (message as Message).role === "assistant");
+
+  if (!previous) {
+    return hasAssistant(messages)
+      ? "First turn contains assistant messages that were never proven"
+      : undefined;
+  }
+
+  const history = provenMessages(previous);
+  const assistant = {
+    role: "assistant",
+    content: parseProvenMessage(previous).content,
+  };
+  const expected = [...history, assistant].map((m) => JSON.stringify(m));
+
+  if (messages.length <= expected.length) {
+    return "Request does not add a new message after the previous turn";
+  }
+  for (let i = 0; i < expected.length; i++) {
+    if (JSON.stringify(messages[i]) !== expected[i]) {
+      return i === history.length
+        ? "Assistant message does not match the previous proven response"
+        : `Message ${i} does not match the previous proven request`;
+    }
+  }
+  if (hasAssistant(messages.slice(expected.length))) {
+    return "Request contains assistant messages that were never proven";
+  }
+  return undefined;
+}
+
+/**
+ * VerifiableConversation - Multi-turn chat with chained proofs
+ *
+ * Each turn sends the proven history back to Claude, so every assistant
+ * message in a later request is exactly an earlier proven response.
+ * The exported transcript lets a third party check the whole chain.
+ *
+ * @example
+ * ```typescript
+ * const conversation = new VerifiableConversation(client, {
+ *   model: "claude-3-5-haiku-20241022",
+ * });
+ *
+ * await conversation.send("My name is Alice.");
+ * const turn2 = await conversation.send("What is my name?");
+ *
+ * const transcript = conversation.exportTranscript();
+ * const verification = await VerifiableConversation.verifyTranscript(transcript);
+ * console.log("Chain verified:", verification.isValid);
+ * ```
+ */
+export class VerifiableConversation {
+  private client: VerifiableClaude;
+  private options: ConversationOptions;
+  private turns: { message: Message; result: VerifiableClaudeResult }[] = [];
+
+  constructor(client: VerifiableClaude, options: ConversationOptions = {}) {
+    this.client = client;
+    this.options = options;
+  }
+
+  /**
+   * The conversation history, with assistant turns taken from the proofs
+   */
+  get messages(): Message[] {
+    return this.turns.flatMap(({ message, result }) => [
+      message,
+      { role: "assistant" as const, content: result.content },
+    ]);
+  }
+
+  /**
+   * Results of all turns so far, in order
+   */
+  get results(): VerifiableClaudeResult[] {
+    return this.turns.map(({ result }) => result);
+  }
+
+  /**
+   * Send a user message and prove Claude's reply
+   *
+   * @param content - The user message
+   * @param options - Per-turn overrides of the conversation options
+   * @returns Verifiable result for this turn
+   */
+  async send(
+    content: string | ContentBlock[],
+    options?: ConversationOptions
+  ): Promise<VerifiableClaudeResult> {
+    const message: Message = { role: "user", content };
+    const result = await this.client.generate({
+      ...this.options,
+      ...options,
+      messages: [...this.messages, message],
+    });
+
+    this.turns.push({ message, result });
+    return result;
+  }
+
+  /**
+   * Export all turns as a transcript bundle for third-party verification
+   */
+  exportTranscript(): ConversationTranscript {
+    return {
+      turns: this.turns.map(({ result }) => this.client.serializeResult(result)),
+    };
+  }
+
+  /**
+   * Verify a transcript end to end
+   *
+   * Every turn's proof is verified on its own, and each turn must link to
+   * the previous one, so spliced, reordered or invented turns are rejected.
+   *
+   * @param transcript - Transcript exported by `exportTranscript()`
+   * @param options - Verification options applied to every turn
+   * @returns Per-turn results and any broken links
+   */
+  static async verifyTranscript(
+    transcript: ConversationTranscript,
+    options?: VerifyOptions
+  ): Promise<TranscriptVerificationResult> {
+    const turns = [];
+    const brokenLinks: TranscriptLinkError[] = [];
+    let previous: Proof | undefined;
+
+    for (const [index, serialized] of transcript.turns.entries()) {
+      let proof: Proof;
+      try {
+        proof = JSON.parse(serialized.proofJson) as Proof;
+      } catch (error) {
+        turns.push(
+          failedVerification(
+            "malformed_proof",
+            error instanceof Error ? error.message : "Invalid proof JSON"
+          )
+        );
+        brokenLinks.push({ turn: index, reason: "Proof could not be parsed" });
+        previous = undefined;
+        continue;
+      }
+
+      turns.push(
+        await verifyClaudeProof(
+          proof,
+          {
+            text: serialized.text,
+            model: serialized.model,
+            messageId: serialized.messageId,
+            request: serialized.request,
+            timestamp: serialized.timestamp,
+            origin: serialized.origin,
+          },
+          options
+        )
+      );
+
+      try {
+        const reason = checkTurnLink(previous, proof);
+        if (reason) {
+          brokenLinks.push({ turn: index, reason });
+        }
+      } catch (error) {
+        brokenLinks.push({
+          turn: index,
+          reason: error instanceof Error ? error.message : "Invalid turn",
+        });
+      }
+      previous = proof;
+    }
+
+    return {
+      isValid:
+        transcript.turns.length > 0 &&
+        brokenLinks.length === 0 &&
+        turns.every((turn) => turn.isValid),
+      turns,
+      brokenLinks,
+    };
+  }
+}
@@ -0,0 +1,308 @@
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  sign,
+  verify,
+  KeyObject,
+} from "crypto";
+import type {
+  CredentialVerificationResult,
+  InferenceClaimSubject,
+  InferenceCredential,
+  ProofBundle,
+  ProviderVerifyOptions,
+  SerializedProof,
+  VerifiableResult,
+} from "./types.js";
+import {
+  bundleToSerializedProof,
+  createProofBundle,
+  decodeBundleString,
+  encodeBundleString,
+  getBundleHash,
+  parseProofBundle,
+  verifyProofBundle,
+} from "./bundle.js";
+import { getPromptHash } from "./store.js";
+
+const VC_CONTEXT = "https://www.w3.org/ns/credentials/v2";
+const VC_JWT_TYPE = "vc+jwt";
+const ATTESTATION_JWT_TYPE = "JWT";
+
+/**
+ * JWS algorithms supported for operator keys
+ */
+export type CredentialAlgorithm = "EdDSA" | "ES256" | "RS256";
+
+/**
+ * Operator key and identity used to sign credentials
+ */
+export interface CredentialIssuerOptions {
+  /** Issuer identifier (DID or URL) */
+  issuer: string;
+  /** Private key (KeyObject or PEM): Ed25519, P-256 or RSA */
+  privateKey: KeyObject | string;
+  /** Optional key id, written to the JWS `kid` header */
+  keyId?: string;
+  /** Issuance time in ms (default: now) */
+  now?: number;
+}
+
+/**
+ * Options for verifying credentials and attestations
+ */
+export interface CredentialVerifyOptions extends ProviderVerifyOptions {
+  /** Operator public key (KeyObject or PEM) */
+  publicKey: KeyObject | string;
+  /** Issuer the credential must name (default: any) */
+  issuer?: string;
+}
+
+interface JwsHeader {
+  alg: CredentialAlgorithm;
+  typ: string;
+  kid?: string;
+}
+
+/**
+ * Payload of an attestation JWS
+ */
+interface AttestationPayload {
+  iss: string;
+  iat: number;
+  jti: string;
+  inference: InferenceClaimSubject;
+  /** Proof bundle in its short string form */
+  evidence: string;
+}
+
+function sha256(data: string): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function base64urlJson(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+/**
+ * JWS algorithm for a key, or an error if the key type is unsupported
+ */
+function algorithmFor(key: KeyObject): CredentialAlgorithm {
+  if (key.asymmetricKeyType === "ed25519") return "EdDSA";
+  if (key.asymmetricKeyType === "rsa") return "RS256";
+  if (
+    key.asymmetricKeyType === "ec" &&
+    key.asymmetricKeyDetails?.namedCurve === "prime256v1"
+  ) {
+    return "ES256";
+  }
+  throw new Error(
+    `Unsupported key type '${key.asymmetricKeyType}' (use Ed25519, P-256 or RSA)`
+  );
+}
+
+function signJws(payload: unknown, typ: string, options: CredentialIssuerOptions): string {
+  const key =
+    typeof options.privateKey === "string"
+      ? createPrivateKey(options.privateKey)
+      : options.privateKey;
+  const alg = algorithmFor(key);
+  const header: JwsHeader = { alg, typ };
+  if (options.keyId) {
+    header.kid = options.keyId;
+  }
+
+  const signingInput = `${base64urlJson(header)}.${base64urlJson(payload)}`;
+  const signature = sign(alg === "EdDSA" ? null : "sha256", Buffer.from(signingInput), {
+    key,
+    dsaEncoding: "ieee-p1363",
+  });
+  return `${signingInput}.${signature.toString("base64url")}`;
+}
+
+/**
+ * Describe an inference for a credential subject
+ */
+export function createClaimSubject(bundle: ProofBundle): InferenceClaimSubject {
+  const promptHash = getPromptHash(bundleToSerializedProof(bundle));
+  if (!promptHash) {
+    throw new Error("Proof has no recorded request to hash the prompt from");
+  }
+  const subject: InferenceClaimSubject = {
+    model: bundle.model,
+    promptHash,
+    responseHash: sha256(bundle.text),
+    attestedAt: new Date(bundle.timestamp).toISOString(),
+  };
+  if (bundle.origin) {
+    subject.origin = bundle.origin;
+  }
+  return subject;
+}
+
+/**
+ * Wrap a proven inference as a W3C Verifiable Credential
+ *
+ * The credential subject is the model, prompt hash, response hash and
+ * attested time; the proof bundle is embedded as evidence. Sign it with
+ * `issueCredential()` to get a `vc+jwt`.
+ *
+ * @param source - Result or serialized proof
+ * @param issuer - Issuer identifier (DID or URL)
+ * @param now - Issuance time in ms (default: now)
+ */
+export function createInferenceCredential(
+  source: VerifiableResult | SerializedProof,
+  issuer: string,
+  now = Date.now()
+): InferenceCredential {
+  const bundle = createProofBundle(source);
+  return {
+    "@context": [VC_CONTEXT],
+    type: ["VerifiableCredential", "AIInferenceCredential"],
+    id: `urn:zkproof:${getBundleHash(bundle)}`,
+    issuer,
+    validFrom: new Date(now).toISOString(),
+    credentialSubject: createClaimSubject(bundle),
+    evidence: [{ type: ["ZkTlsProof"], bundle }],
+  };
+}
+
+/**
+ * Issue a Verifiable Credential as a compact JWS (`typ: vc+jwt`)
+ *
+ * @param source - Result or serialized proof
+ * @param options - Issuer identity and operator private key
+ * @returns Compact JWS whose payload is the credential
+ *
+ * @example
+ * ```typescript
+ * const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+ * const jws = issueCredential(result, { issuer: "did:web:ai.example.com", privateKey });
+ *
+ * const { isValid } = await verifyCredential(jws, { publicKey });
+ * ```
+ */
+export function issueCredential(
+  source: VerifiableResult | SerializedProof,
+  options: CredentialIssuerOptions
+): string {
+  const credential = createInferenceCredential(source, options.issuer, options.now);
+  return signJws(credential, VC_JWT_TYPE, options);
+}
+
+/**
+ * Issue a compact attestation JWS (`typ: JWT`)
+ *
+ * Smaller than a credential: the proof bundle is carried in its `zkp1.`
+ * string form, alongside the same claim subject.
+ *
+ * @param source - Result or serialized proof
+ * @param options - Issuer identity and operator private key
+ * @returns Compact JWS
+ */
+export function issueAttestation(
+  source: VerifiableResult | SerializedProof,
+  options: CredentialIssuerOptions
+): string {
+  const bundle = createProofBundle(source);
+  const payload: AttestationPayload = {
+    iss: options.issuer,
+    iat: Math.floor((options.now ?? Date.now()) / 1000),
+    jti: `urn:zkproof:${getBundleHash(bundle)}`,
+    inference: createClaimSubject(bundle),
+    evidence: encodeBundleString(bundle),
+  };
+  return signJws(payload, ATTESTATION_JWT_TYPE, options);
+}
+
+/**
+ * Verify a credential or attestation JWS
+ *
+ * Checks the operator's signature, that the claim subject describes the
+ * embedded proof, and the embedded zkTLS proof itself.
+ *
+ * @param jws - Compact JWS from `issueCredential()` or `issueAttestation()`
+ * @param options - Operator public key, expected issuer and proof options
+ * @returns Outer signature, subject and inner proof verification
+ */
+export async function verifyCredential(
+  jws: string,
+  options: CredentialVerifyOptions
+): Promise<CredentialVerificationResult> {
+  const { publicKey, issuer: expectedIssuer, ...verifyOptions } = options;
+  const result: CredentialVerificationResult = {
+    isValid: false,
+    signatureValid: false,
+    subjectValid: false,
+  };
+
+  try {
+    const parts = jws.trim().split(".");
+    if (parts.length !== 3) {
+      throw new Error("Invalid JWS: expected three segments");
+    }
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+    const header = JSON.parse(
+      Buffer.from(encodedHeader, "base64url").toString("utf-8")
+    ) as JwsHeader;
+
+    const key =
+      typeof publicKey === "string" ? createPublicKey(publicKey) : publicKey;
+    const alg = algorithmFor(key);
+    if (header.alg !== alg) {
+      throw new Error(`JWS algorithm '${header.alg}' does not match the key (${alg})`);
+    }
+    result.signatureValid = verify(
+      alg === "EdDSA" ? null : "sha256",
+      Buffer.from(`${encodedHeader}.${encodedPayload}`),
+      { key, dsaEncoding: "ieee-p1363" },
+      Buffer.from(encodedSignature, "base64url")
+    );
+    if (!result.signatureValid) {
+      throw new Error("Invalid JWS signature");
+    }
+
+    const payload = JSON.parse(
+      Buffer.from(encodedPayload, "base64url").toString("utf-8")
+    );
+    let bundle: ProofBundle;
+    if (header.typ === VC_JWT_TYPE) {
+      const credential = payload as InferenceCredential;
+      result.issuer = credential.issuer;
+      result.subject = credential.credentialSubject;
+      bundle = parseProofBundle(credential.evidence?.[0]?.bundle);
+    } else if (header.typ === ATTESTATION_JWT_TYPE) {
+      const attestation = payload as AttestationPayload;
+      result.issuer = attestation.iss;
+      result.subject = attestation.inference;
+      bundle = decodeBundleString(String(attestation.evidence));
+    } else {
+      throw new Error(`Unsupported JWS type '${header.typ}'`);
+    }
+
+    if (expectedIssuer !== undefined && result.issuer !== expectedIssuer) {
+      throw new Error(`Issuer '${result.issuer}' is not '${expectedIssuer}'`);
+    }
+
+    const expected = createClaimSubject(bundle);
+    const subject = result.subject ?? ({} as Partial<InferenceClaimSubject>);
+    result.subjectValid = (
+      Object.keys(expected) as (keyof InferenceClaimSubject)[]
+    ).every((field) => subject[field] === expected[field]);
+    if (!result.subjectValid) {
+      throw new Error("Credential subject does not match the embedded proof");
+    }
+
+    result.proof = await verifyProofBundle(bundle, verifyOptions);
+    if (!result.proof.isValid) {
+      throw new Error(`Embedded proof is invalid: ${result.proof.error}`);
+    }
+    result.isValid = true;
+    return result;
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : "Verification failed";
+    return result;
+  }
+}
@@ -0,0 +1,123 @@
+import type { ResponseMatch, ResponseRedaction } from "./types.js";
+import {
+  compileResponseRules,
+  getJsonPathParamName,
+  parseJsonPath,
+} from "./matching.js";
+import type { CompiledResponseRules, JsonPathSegment } from "./matching.js";
+
+/**
+ * Check a disclosure path (`content[0].text`, without the leading `$.`)
+ */
+function toJsonPath(path: string): string {
+  if (!/^[A-Za-z_]/.test(path)) {
+    throw new Error(`Invalid disclosure path '${path}'`);
+  }
+  return `$.${path}`;
+}
+
+/**
+ * Name of the extracted parameter holding a disclosed field
+ *
+ * @example
+ * ```typescript
+ * getDisclosureParamName("content[0].text"); // "content_0_text"
+ * ```
+ */
+export function getDisclosureParamName(path: string): string {
+  return getJsonPathParamName(toJsonPath(path));
+}
+
+/**
+ * Build the response rules that make only the given fields public
+ *
+ * Each field becomes a JSON-path rule (see `compileResponseRules()`), so
+ * fields must be scalars ending in distinct property names.
+ *
+ * @param paths - Field paths, e.g. `["content[0].text", "model"]`
+ * @returns Response matches and redactions for the proof request
+ * @throws Error if a path is invalid or two paths end in the same name
+ */
+export function createDisclosure(paths: string[]): CompiledResponseRules {
+  if (paths.length === 0) {
+    throw new Error("Disclosure must list at least one field");
+  }
+  return compileResponseRules(
+    paths.map((path) => ({ type: "jsonPath", path: toJsonPath(path) }))
+  );
+}
+
+/**
+ * Read the disclosed fields of a proof
+ *
+ * Every JSON-path redaction in the signed parameters must come with the
+ * matching rule `createDisclosure()` builds for it, and a signed value.
+ *
+ * @param parameters - Signed claim parameters
+ * @param extracted - Signed extracted parameters
+ * @returns Field values by path, or undefined if the proof discloses the whole response
+ * @throws Error if the disclosure rules or values are malformed
+ */
+export function readDisclosedFields(
+  parameters: Record<string, unknown>,
+  extracted: Record<string, string>
+): Record<string, unknown> | undefined {
+  const redactions = parameters.responseRedactions;
+  if (!Array.isArray(redactions) || redactions.length === 0) {
+    return undefined;
+  }
+
+  const paths = redactions.map((redaction: ResponseRedaction) => {
+    if (typeof redaction?.jsonPath !== "string" || !redaction.jsonPath.startsWith("$.")) {
+      throw new Error("Proof redacts the response other than by field");
+    }
+    return redaction.jsonPath.slice(2);
+  });
+  const expected = createDisclosure(paths);
+  const signedMatches = Array.isArray(parameters.responseMatches)
+    ? (parameters.responseMatches as ResponseMatch[])
+    : [];
+
+  const fields: Record<string, unknown> = {};
+  for (const [index, path] of paths.entries()) {
+    const rule = expected.responseMatches[index];
+    if (!signedMatches.some((m) => m.type === rule.type && m.value === rule.value)) {
+      throw new Error(`Disclosed field '${path}' has no matching response rule`);
+    }
+    const value = extracted[getDisclosureParamName(path)];
+    if (value === undefined) {
+      throw new Error(`Disclosed field '${path}' has no signed value`);
+    }
+    fields[path] = JSON.parse(value);
+  }
+  return fields;
+}
+
+/**
+ * Rebuild a partial response holding only the disclosed fields
+ *
+ * Objects are created without a prototype, since the paths come from the
+ * proof.
+ *
+ * @example
+ * ```typescript
+ * buildDisclosedResponse({ "content[0].text": "Hi", model: "claude-3-5-haiku-20241022" });
+ * // { content: [{ text: "Hi" }], model: "claude-3-5-haiku-20241022" }
+ * ```
+ */
+export function buildDisclosedResponse(
+  fields: Record<string, unknown>
+): Record<string, unknown> {
+  const response: Record<string, unknown> = Object.create(null);
+  for (const [path, value] of Object.entries(fields)) {
+    const segments = parseJsonPath(toJsonPath(path));
+    let node: Record<JsonPathSegment, unknown> = response;
+    for (const [index, segment] of segments.slice(0, -1).entries()) {
+      node[segment] ??=
+        typeof segments[index + 1] === "number" ? [] : Object.create(null);
+      node = node[segment] as Record<JsonPathSegment, unknown>;
+    }
+    node[segments[segments.length - 1]] = value;
+  }
+  return response;
+}
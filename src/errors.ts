@@ -0,0 +1,246 @@
+import type {
+  GenerationErrorCode,
+  SchemaError,
+  VerifiableClaudeResult,
+} from "./types.js";
+
+/**
+ * VerifiableGenerationError - Base class of every error raised by generation
+ *
+ * Carries a stable `code`, whether another attempt could succeed, and the
+ * underlying error as `cause`.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.generate({ prompt: "Hello" });
+ * } catch (error) {
+ *   if (error instanceof VerifiableGenerationError && error.retryable) {
+ *     // retry later
+ *   }
+ *   console.error(error.code, error.cause);
+ * }
+ * ```
+ */
+export class VerifiableGenerationError extends Error {
+  /** Stable error code */
+  readonly code: GenerationErrorCode;
+  /** Whether the same request could succeed if tried again */
+  readonly retryable: boolean;
+
+  constructor(
+    code: GenerationErrorCode,
+    message: string,
+    options: { retryable?: boolean; cause?: unknown } = {}
+  ) {
+    super(message, options.cause === undefined ? undefined : { cause: options.cause });
+    this.name = "VerifiableGenerationError";
+    this.code = code;
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+/**
+ * InvalidOptionsError - The generation options cannot be turned into a request
+ *
+ * E.g. neither `prompt` nor `messages`, or an invalid disclosure path.
+ */
+export class InvalidOptionsError extends VerifiableGenerationError {
+  constructor(message: string, cause?: unknown) {
+    super("invalid_options", message, { cause });
+    this.name = "InvalidOptionsError";
+  }
+}
+
+/**
+ * Codes of Anthropic error types, and whether each is worth retrying
+ */
+const ANTHROPIC_ERROR_CODES: Record<
+  string,
+  { code: GenerationErrorCode; retryable: boolean }
+> = {
+  authentication_error: { code: "api_authentication", retryable: false },
+  permission_error: { code: "api_permission", retryable: false },
+  invalid_request_error: { code: "api_invalid_request", retryable: false },
+  not_found_error: { code: "api_not_found", retryable: false },
+  request_too_large: { code: "api_request_too_large", retryable: false },
+  rate_limit_error: { code: "api_rate_limited", retryable: true },
+  overloaded_error: { code: "api_overloaded", retryable: true },
+  api_error: { code: "api_error", retryable: true },
+};
+
+/**
+ * AnthropicApiError - An error body returned by the Anthropic API
+ *
+ * Raised when the proven response is `{"type": "error", ...}` instead of a
+ * message, e.g. for an invalid API key or an overloaded model. Its `code`
+ * is derived from `errorType`; unknown types are `api_error` and not
+ * retryable. The parsed error body is its `cause`.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.generate({ prompt: "Hello" });
+ * } catch (error) {
+ *   if (error instanceof AnthropicApiError && error.code === "api_overloaded") {
+ *     // retry later, quoting error.requestId to support if it persists
+ *   }
+ * }
+ * ```
+ */
+export class AnthropicApiError extends VerifiableGenerationError {
+  /** Anthropic error type, e.g. "authentication_error" or "overloaded_error" */
+  readonly errorType: string;
+  /** Anthropic request id, if the body carried one */
+  readonly requestId?: string;
+
+  constructor(
+    errorType: string,
+    message: string,
+    requestId?: string,
+    cause?: unknown
+  ) {
+    const { code, retryable } = ANTHROPIC_ERROR_CODES[errorType] ?? {
+      code: "api_error",
+      retryable: false,
+    };
+    super(code, `Anthropic API error (${errorType}): ${message}`, {
+      retryable,
+      cause,
+    });
+    this.name = "AnthropicApiError";
+    this.errorType = errorType;
+    this.requestId = requestId;
+  }
+}
+
+/**
+ * ResponseMatchError - The response did not match the proof's response rules
+ *
+ * E.g. a disclosed field is missing from the response. The response itself
+ * is not revealed, so the message names the rule that failed.
+ */
+export class ResponseMatchError extends VerifiableGenerationError {
+  constructor(message: string, cause?: unknown) {
+    super("response_mismatch", message, { cause });
+    this.name = "ResponseMatchError";
+  }
+}
+
+/**
+ * ResponseParseError - The proven response could not be extracted or parsed
+ */
+export class ResponseParseError extends VerifiableGenerationError {
+  constructor(message: string, cause?: unknown) {
+    super("response_invalid", message, { cause });
+    this.name = "ResponseParseError";
+  }
+}
+
+/**
+ * StructuredOutputError - The structured output is missing or violates its schema
+ *
+ * The response was still proven; `result` keeps it and its proof. Another
+ * attempt may comply, so it is retryable.
+ */
+export class StructuredOutputError extends VerifiableGenerationError {
+  /** Schema violations (empty if there was no output at all) */
+  readonly schemaErrors: SchemaError[];
+  /** The proven result that failed */
+  readonly result: VerifiableClaudeResult;
+
+  constructor(
+    message: string,
+    result: VerifiableClaudeResult,
+    schemaErrors: SchemaError[] = []
+  ) {
+    super("schema_violation", message, { retryable: true });
+    this.name = "StructuredOutputError";
+    this.result = result;
+    this.schemaErrors = schemaErrors;
+  }
+}
+
+/**
+ * AuditLogError - The proof was generated but not appended to the audit log
+ *
+ * `result` keeps the proof, which was already paid for. Not retryable:
+ * generating again would send another request; append `result` instead.
+ */
+export class AuditLogError extends VerifiableGenerationError {
+  /** The proven result that was not recorded */
+  readonly result: VerifiableClaudeResult;
+
+  constructor(message: string, result: VerifiableClaudeResult, cause?: unknown) {
+    super("audit_log_failed", message, { cause });
+    this.name = "AuditLogError";
+    this.result = result;
+  }
+}
+
+/**
+ * WitnessError - The witness or attestor did not produce a proof
+ *
+ * Outages, network failures and timeouts (`proof_timeout`); always retryable.
+ */
+export class WitnessError extends VerifiableGenerationError {
+  constructor(
+    message: string,
+    options: { code?: "witness_unavailable" | "proof_timeout"; cause?: unknown } = {}
+  ) {
+    super(options.code ?? "witness_unavailable", message, {
+      retryable: true,
+      cause: options.cause,
+    });
+    this.name = "WitnessError";
+  }
+}
+
+/**
+ * The error to raise for a failed generation
+ *
+ * Typed errors are returned as they are; anything else becomes a retryable
+ * `generation_failed` error with the original as its `cause`.
+ */
+export function toGenerationError(error: unknown): VerifiableGenerationError {
+  if (error instanceof VerifiableGenerationError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : "Unknown error occurred";
+  return new VerifiableGenerationError(
+    "generation_failed",
+    `Verifiable generation failed: ${message}`,
+    { retryable: true, cause: error }
+  );
+}
+
+/**
+ * An error body returned by the Anthropic API
+ */
+interface AnthropicErrorBody {
+  type: "error";
+  error?: { type?: unknown; message?: unknown };
+  request_id?: unknown;
+  [field: string]: unknown;
+}
+
+/**
+ * The error in an Anthropic response body, if it is an error body
+ *
+ * @param response - Parsed response body
+ * @returns The error, or undefined for a message
+ */
+export function getAnthropicError(
+  response: Record<string, unknown>
+): AnthropicApiError | undefined {
+  if (response?.type !== "error") {
+    return undefined;
+  }
+  const { error, request_id: requestId } = response as AnthropicErrorBody;
+  return new AnthropicApiError(
+    String(error?.type ?? "unknown_error"),
+    String(error?.message ?? "Unknown error"),
+    typeof requestId === "string" ? requestId : undefined,
+    response
+  );
+}
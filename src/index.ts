@@ -1,6 +1,8 @@
-import { ReclaimClient } from "@reclaimprotocol/zk-fetch";
-import { verifyProof, Proof } from "@reclaimprotocol/js-sdk";
+import type { Proof } from "@reclaimprotocol/js-sdk";
 import type {
+  ProofBackend,
+  ProofOptions,
+  PromptReveal,
   VerifiableClaudeConfig,
   ClaudeModel,
   Message,
@@ -8,18 +10,252 @@ import type {
   VerifiableClaudeResult,
   VerificationResult,
   SerializedClaudeProof,
+  VerifyOptions,
+  ResponseRule,
+  BatchJob,
+  BatchResult,
+  JsonSchema,
+  StructuredGenerateOptions,
+  VerifiableStructuredResult,
 } from "./types.js";
+import {
+  verifyClaudeProof,
+  failedVerification,
+  getAttestedOrigin,
+  getDisclosedFields,
+  parseProvenMessage,
+  extractText,
+} from "./verification.js";
+import { createDisclosure } from "./disclosure.js";
+import { resolveBackend } from "./backend.js";
+import { createPrivatePrompt, withPromptCommitment } from "./privacy.js";
+import { ANTHROPIC_RESPONSE_RULES } from "./providers.js";
+import { compileResponseRules } from "./matching.js";
+import type { CompiledResponseRules } from "./matching.js";
+import {
+  AuditLogError,
+  InvalidOptionsError,
+  getAnthropicError,
+  toGenerationError,
+} from "./errors.js";
+import { generateBatch } from "./batch.js";
+import { getProofMode } from "./policy.js";
+import type { BatchOptions } from "./batch.js";
+import {
+  STRUCTURED_OUTPUT_TOOL,
+  createStructuredRequest,
+  readStructuredOutput,
+} from "./structured.js";
 
 // Re-export types
 export * from "./types.js";
+export {
+  DEFAULT_ALLOWED_HOSTS,
+  VERIFIER_VERSION,
+  verifyClaudeProof,
+  failedVerification,
+  checkContentBinding,
+  getAttestedOrigin,
+  parseClaimParameters,
+  getSignedExtractedParameters,
+  getDisclosedFields,
+  parseProvenResponse,
+  parseProvenMessage,
+  parseAnthropicResponse,
+  verifyInferenceProof,
+  extractText,
+} from "./verification.js";
+export type { ClaimParameters, ExpectedClaim } from "./verification.js";
+export {
+  STREAM_RESPONSE_REGEX,
+  STREAM_RESPONSE_RULES,
+  isSseTranscript,
+  parseSseEvents,
+  reconstructStreamedMessage,
+  reconstructStreamText,
+  streamTextDeltas,
+} from "./stream.js";
+export type { SseEvent, SseEventData } from "./stream.js";
+export {
+  RESPONSE_PARAM,
+  JSON_RESPONSE_RULES,
+  parseJsonPath,
+  getJsonPathParamName,
+  compileResponseRules,
+  redactResponse,
+} from "./matching.js";
+export type { CompiledResponseRules, JsonPathSegment } from "./matching.js";
+export {
+  VerifiableGenerationError,
+  InvalidOptionsError,
+  AnthropicApiError,
+  ResponseMatchError,
+  ResponseParseError,
+  StructuredOutputError,
+  AuditLogError,
+  WitnessError,
+  toGenerationError,
+  getAnthropicError,
+} from "./errors.js";
+export {
+  createDisclosure,
+  getDisclosureParamName,
+  readDisclosedFields,
+  buildDisclosedResponse,
+} from "./disclosure.js";
+export { VerifiableConversation, checkTurnLink } from "./conversation.js";
+export type { ConversationOptions } from "./conversation.js";
+export { VerifiableAgent } from "./agent.js";
+export type { AgentOptions } from "./agent.js";
+export {
+  TEE_ATTESTOR_URLS,
+  MAX_CLOCK_SKEW_SECONDS,
+  evaluatePolicy,
+  getProofMode,
+  isTeeProof,
+} from "./policy.js";
+export {
+  LOCAL_WITNESS_URL,
+  ReclaimBackend,
+  LocalProofBackend,
+  resolveBackend,
+} from "./backend.js";
+export type { LocalProofBackendOptions } from "./backend.js";
+export {
+  ANTHROPIC_RESPONSE_RULES,
+  OPENAI_RESPONSE_RULES,
+  anthropicProvider,
+  openAICompatibleProvider,
+  openAIProvider,
+  openRouterProvider,
+  parseOpenAIResponse,
+  builtInProviders,
+} from "./providers.js";
+export { VerifiableInference } from "./inference.js";
+export { VerifiableAnthropic } from "./sdk.js";
+export type {
+  VerifiableAnthropicOptions,
+  VerifiableMessage,
+} from "./sdk.js";
+export {
+  validateSchema,
+  findUnsupportedKeywords,
+  formatSchemaErrors,
+  GENERATE_OPTIONS_SCHEMA,
+  SERIALIZED_PROOF_SCHEMA,
+} from "./schema.js";
+export {
+  canonicalJson,
+  getProofId,
+  getVerifyOptionsHash,
+  getPromptHash,
+  MemoryProofStore,
+  JsonlProofStore,
+  SqliteProofStore,
+  verifyStoredProof,
+} from "./store.js";
+export type { SqliteDatabase, StoredVerifyOptions } from "./store.js";
+export {
+  LEDGER_GENESIS_HASH,
+  getRequestHash,
+  getEntryHash,
+  createLedgerEntry,
+  MemoryAuditLog,
+  JsonlAuditLog,
+  verifyLedger,
+} from "./ledger.js";
+export type { LedgerVerifyOptions } from "./ledger.js";
+export {
+  hashMerkleLeaf,
+  buildMerkleBatch,
+  verifyInclusion,
+  verifyBatchedProof,
+} from "./merkle.js";
+export {
+  RECLAIM_VERIFIER_ABI,
+  toOnchainProof,
+  encodeOnchainProof,
+  decodeOnchainProof,
+  verifyOnchainProof,
+} from "./onchain.js";
+export { encodeCbor, decodeCbor } from "./cbor.js";
+export {
+  PROOF_BUNDLE_VERSION,
+  BUNDLE_STRING_PREFIX,
+  MAX_BUNDLE_BYTES,
+  PROOF_BUNDLE_SCHEMA,
+  createProofBundle,
+  parseProofBundle,
+  migrateProofBundle,
+  bundleToSerializedProof,
+  encodeBundleJson,
+  getBundleHash,
+  encodeBundleCbor,
+  decodeBundleCbor,
+  encodeBundleString,
+  decodeBundleString,
+  verifyProofBundle,
+} from "./bundle.js";
+export {
+  PROMPT_COMMITMENT_PREFIX,
+  createPrivatePrompt,
+  computePromptCommitment,
+  withPromptCommitment,
+  getPromptCommitment,
+  verifyPromptReveal,
+} from "./privacy.js";
+export type { PrivatePrompt } from "./privacy.js";
+export {
+  createClaimSubject,
+  createInferenceCredential,
+  issueCredential,
+  issueAttestation,
+  verifyCredential,
+} from "./credential.js";
+export type {
+  CredentialAlgorithm,
+  CredentialIssuerOptions,
+  CredentialVerifyOptions,
+} from "./credential.js";
+export { getBatchJobId, readBatchState, generateBatch } from "./batch.js";
+export type { BatchOptions } from "./batch.js";
+export {
+  STRUCTURED_OUTPUT_TOOL,
+  createStructuredRequest,
+  getStructuredOutput,
+  readStructuredOutput,
+  verifyStructuredProof,
+} from "./structured.js";
+export { createProofApiHandler, createProofServer } from "./server.js";
+export type {
+  ApiErrorType,
+  ApiErrorEnvelope,
+  ProofServerOptions,
+} from "./server.js";
+export {
+  getClaimIdentifier,
+  getClaimSignData,
+  recoverSigners,
+} from "./claim.js";
 
 const ANTHROPIC_API_ENDPOINT = "https://api.anthropic.com/v1";
 const ANTHROPIC_VERSION = "2023-06-01";
 
+/**
+ * Model used when a request names none
+ */
+export const DEFAULT_MODEL: ClaudeModel = "claude-3-5-sonnet-20241022";
+
+/**
+ * `max_tokens` used when a request sets none
+ */
+export const DEFAULT_MAX_TOKENS = 1024;
+
 /**
  * VerifiableClaude - A Claude API client with zkTLS verification
  *
- * Uses Reclaim Protocol to generate cryptographic proofs that:
+ * Uses Reclaim Protocol (or another ProofBackend) to generate
+ * cryptographic proofs that:
  * 1. Requests were sent to api.anthropic.com (origin verification)
  * 2. Responses were not modified (integrity verification)
  *
@@ -27,17 +263,14 @@ const ANTHROPIC_VERSION = "2023-06-01";
  * genuinely came from Anthropic's Claude API.
  */
 export class VerifiableClaude {
-  private reclaimClient: ReclaimClient;
+  private backend: ProofBackend;
   private config: VerifiableClaudeConfig;
   private endpoint: string;
 
   constructor(config: VerifiableClaudeConfig) {
     this.config = config;
     this.endpoint = config.endpoint || ANTHROPIC_API_ENDPOINT;
-    this.reclaimClient = new ReclaimClient(
-      config.reclaimAppId,
-      config.reclaimAppSecret
-    );
+    this.backend = resolveBackend(config);
   }
 
   /**
@@ -58,8 +291,126 @@ export class VerifiableClaude {
    * ```
    */
   async generate(options: ClaudeGenerateOptions): Promise<VerifiableClaudeResult> {
-    const model = options.model || "claude-3-5-sonnet-20241022";
-    const maxTokens = options.maxTokens || 1024;
+    const { model, body } = this.buildRequestBody(options);
+
+    // Prove the entire response body, or only the disclosed fields
+    return this.proveRequest(
+      model,
+      body,
+      ANTHROPIC_RESPONSE_RULES,
+      options.proofOptions,
+      options.privatePrompt,
+      options.disclose
+    );
+  }
+
+  /**
+   * Generate from a raw Messages API request body
+   *
+   * The snake_case body (e.g. Anthropic SDK params) is sent and proven
+   * unchanged, so every API parameter is supported.
+   *
+   * @param body - Messages API request body
+   * @param proofOptions - Proof generation settings for this call
+   * @returns Promise with generated text and cryptographic proof
+   */
+  async generateFromBody(
+    body: Record<string, unknown> & { model: string },
+    proofOptions?: ProofOptions
+  ): Promise<VerifiableClaudeResult> {
+    return this.proveRequest(
+      body.model as ClaudeModel,
+      body,
+      ANTHROPIC_RESPONSE_RULES,
+      proofOptions
+    );
+  }
+
+  /**
+   * Generate a JSON value conforming to a schema, with verifiable proof
+   *
+   * Claude is forced to answer through a tool whose input schema is
+   * `schema`; the proven tool input is validated against the schema and
+   * returned as `value`. Third parties can re-check it from the proof
+   * with `verifyStructuredProof()`.
+   *
+   * @param options - Generation options, plus the tool name and description
+   * @param schema - JSON Schema of the output (must describe an object)
+   * @returns Promise with the validated value, the response and its proof
+   * @throws StructuredOutputError if the output is missing or violates the
+   * schema (the error keeps the proven result)
+   *
+   * @example
+   * ```typescript
+   * const { value, proof } = await client.generateStructured<Decision>(
+   *   { prompt: "Rebalance the portfolio given: ..." },
+   *   {
+   *     type: "object",
+   *     properties: {
+   *       action: { enum: ["buy", "sell", "hold"] },
+   *       size: { type: "number", minimum: 0 },
+   *       reason: { type: "string" },
+   *     },
+   *     required: ["action", "size", "reason"],
+   *   }
+   * );
+   * ```
+   */
+  async generateStructured<T = Record<string, unknown>>(
+    options: StructuredGenerateOptions,
+    schema: JsonSchema
+  ): Promise<VerifiableStructuredResult<T>> {
+    const result = await this.generate(createStructuredRequest(options, schema));
+    const value = readStructuredOutput<T>(
+      result,
+      schema,
+      options.toolName ?? STRUCTURED_OUTPUT_TOOL
+    );
+    return { ...result, value };
+  }
+
+  /**
+   * Generate proofs for many prompts, with a job queue
+   *
+   * Runs up to `concurrency` generations at once, retries witness and
+   * proof failures with exponential backoff, pauses on Anthropic rate
+   * limits, and reports progress. With `statePath`, a partially failed or
+   * interrupted batch can be run again without regenerating the proofs it
+   * already has.
+   *
+   * @param jobs - Generation options, each with an optional stable `id`
+   * @param options - Concurrency, retry, state file and progress settings
+   * @returns Every job's outcome, in input order
+   *
+   * @example
+   * ```typescript
+   * const batch = await client.generateBatch(
+   *   evalSet.map((item) => ({ id: item.id, prompt: item.question, maxTokens: 300 })),
+   *   {
+   *     concurrency: 8,
+   *     statePath: "./eval-proofs.jsonl",
+   *     onProgress: (e) => console.log(`${e.completed}/${e.total} ${e.type} ${e.jobId}`),
+   *   }
+   * );
+   * console.log(`${batch.succeeded} proven, ${batch.failed} failed`);
+   * ```
+   */
+  async generateBatch(
+    jobs: BatchJob[],
+    options?: BatchOptions
+  ): Promise<BatchResult> {
+    return generateBatch(this, jobs, options);
+  }
+
+  /**
+   * Build the Messages API request body from generation options
+   */
+  private buildRequestBody(options: ClaudeGenerateOptions): {
+    model: ClaudeModel;
+    body: Record<string, unknown>;
+  } {
+    const model = options.model || DEFAULT_MODEL;
+    const maxTokens = options.maxTokens || DEFAULT_MAX_TOKENS;
     const temperature = options.temperature ?? 1;
 
     // Build messages array
@@ -69,7 +420,7 @@ export class VerifiableClaude {
     } else if (options.prompt) {
       messages = [{ role: "user", content: options.prompt }];
     } else {
-      throw new Error("Either 'messages' or 'prompt' must be provided");
+      throw new InvalidOptionsError("Either 'messages' or 'prompt' must be provided");
     }
 
     // Build request body
@@ -91,80 +442,145 @@ export class VerifiableClaude {
       body.stop_sequences = options.stopSequences;
     }
 
-    // Regex to extract the response - matches the full JSON response
-    // This captures the entire response body for integrity verification
-    const responseRegex =
-      '(?<response>\\{[\\s\\S]*?"id":\\s*"msg_[^"]*"[\\s\\S]*\\})';
+    if (options.tools?.length) {
+      body.tools = options.tools;
+    }
 
-    try {
-      // Make the zkTLS request through Reclaim Protocol
-      const proof = await this.reclaimClient.zkFetch(
-        `${this.endpoint}/messages`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(body),
-        },
-        {
-          // These headers are used for authentication but hidden from the proof
-          // (the proof verifies the response came from Anthropic without exposing your API key)
-          headers: {
-            "anthropic-version": ANTHROPIC_VERSION,
-            "x-api-key": this.config.apiKey,
-          },
-          // Response matching rules - proves the response matches expected format
-          responseMatches: [
-            {
-              type: "regex" as const,
-              value: responseRegex,
-            },
-          ],
-        }
-      );
+    if (options.toolChoice) {
+      body.tool_choice = options.toolChoice;
+    }
 
-      if (!proof) {
-        throw new Error("Failed to generate proof - no proof returned");
-      }
+    return { model, body };
+  }
 
-      // Extract the response from the proof
-      const responseJson = proof.extractedParameterValues?.response;
-      if (!responseJson) {
-        throw new Error("Failed to extract response from proof");
+  /**
+   * Send a request through the proof backend and build a result from its proof
+   */
+  private async proveRequest(
+    model: ClaudeModel,
+    body: Record<string, unknown>,
+    responseRules: ResponseRule[],
+    proofOptions?: ProofOptions,
+    privatePrompt?: boolean,
+    disclose?: string[]
+  ): Promise<VerifiableClaudeResult> {
+    let options = { ...this.config.proofOptions, ...proofOptions };
+
+    // Private prompts are proven as placeholders, with a public commitment
+    let secretParamValues: Record<string, string> | undefined;
+    let promptReveal: PromptReveal | undefined;
+    let responseMatching: CompiledResponseRules;
+    try {
+      if (privatePrompt) {
+        const hidden = createPrivatePrompt(body);
+        body = hidden.body;
+        secretParamValues = hidden.secretParamValues;
+        promptReveal = hidden.reveal;
+        options = withPromptCommitment(options, hidden.commitment);
       }
 
-      const response = JSON.parse(responseJson);
+      // Disclosed fields replace the whole-response rules
+      responseMatching = disclose
+        ? createDisclosure(disclose)
+        : compileResponseRules(responseRules);
+    } catch (error) {
+      throw new InvalidOptionsError(
+        error instanceof Error ? error.message : "Invalid generation options",
+        error
+      );
+    }
 
-      // Extract text from Claude's response format
-      let text = "";
-      if (Array.isArray(response.content)) {
-        const textContent = response.content.find(
-          (item: { type: string; text?: string }) => item.type === "text"
-        );
-        text = textContent?.text || "";
+    const request = {
+      url: `${this.endpoint}/messages`,
+      method: "POST",
+      body: JSON.stringify(body),
+    };
+
+    let result: VerifiableClaudeResult;
+    try {
+      // Make the zkTLS request through the proof backend
+      const proof = await this.backend.fetchWithProof({
+        ...request,
+        headers: {
+          "Content-Type": "application/json",
+        },
+        // These headers are used for authentication but hidden from the proof
+        // (the proof verifies the response came from Anthropic without exposing your API key)
+        secretHeaders: {
+          "anthropic-version": ANTHROPIC_VERSION,
+          "x-api-key": this.config.apiKey,
+        },
+        secretParamValues,
+        // Response matching rules - proves the response matches expected format
+        ...responseMatching,
+        options,
+      });
+
+      // Extract the response from the proof
+      const response = parseProvenMessage(proof);
+      const apiError = getAnthropicError(response);
+      if (apiError) {
+        throw apiError;
       }
+      const text = extractText(response);
+      const attested = getAttestedOrigin(proof);
 
-      return {
+      result = {
         text,
-        proof: proof as Proof,
-        timestamp: Date.now(),
-        model,
+        content: response.content ?? [],
+        stopReason: response.stop_reason ?? null,
+        usage: response.usage,
+        proof,
+        timestamp: attested.timestampS * 1000,
+        attested,
+        // The proven model: an alias resolves to a dated model in the response
+        model: (response.model as ClaudeModel | undefined) ?? model,
+        messageId: response.id,
+        request,
         provider: "reclaim",
+        proofMode: getProofMode(proof),
+        inferenceProvider: "anthropic",
+        origin: attested.host,
         rawResponse: response,
       };
+      if (promptReveal) {
+        result.promptReveal = promptReveal;
+      }
+      if (disclose) {
+        result.disclosed = getDisclosedFields(proof);
+      }
     } catch (error) {
-      const message =
-        error instanceof Error ? error.message : "Unknown error occurred";
-      throw new Error(`Verifiable generation failed: ${message}`);
+      throw toGenerationError(error);
+    }
+
+    // Record the proof before handing it out, so the trail has no gaps
+    if (this.config.auditLog) {
+      try {
+        await this.config.auditLog.append(this.serializeResult(result));
+      } catch (error) {
+        throw new AuditLogError(
+          `Proof could not be appended to the audit log: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+          result,
+          error
+        );
+      }
     }
+    return result;
   }
 
   /**
    * Verify a proof from a previous generation
    *
+   * Checks the witness signatures, that the attested host is in
+   * `config.allowedHosts`, and that the result's text, model, message id,
+   * request and timestamp are exactly what the proof attests. An optional
+   * policy adds trust requirements such as maximum age or allowed models.
+   *
    * @param result - The result containing the proof to verify
-   * @returns Verification result indicating if proof is valid
+   * @param options - Verification options (host allowlist, policy)
+   * @returns Verification result with any mismatched fields and policy rules
    *
    * @example
    * ```typescript
@@ -174,50 +590,71 @@ export class VerifiableClaude {
    * if (verification.isValid) {
    *   console.log("Proof verified! Response genuinely came from Anthropic.");
    * }
+   *
+   * // Reject proofs older than a day
+   * await client.verify(result, { policy: { maxAgeSeconds: 86400 } });
    * ```
    */
-  async verify(result: VerifiableClaudeResult): Promise<VerificationResult> {
-    try {
-      const isValid = await verifyProof(result.proof);
-
-      return {
-        isValid,
-        verifiedEndpoint: isValid ? `${this.endpoint}/messages` : undefined,
-      };
-    } catch (error) {
-      return {
-        isValid: false,
-        error: error instanceof Error ? error.message : "Verification failed",
-      };
-    }
+  async verify(
+    result: VerifiableClaudeResult,
+    options?: VerifyOptions
+  ): Promise<VerificationResult> {
+    return verifyClaudeProof(
+      result.proof,
+      {
+        text: result.text,
+        model: result.model,
+        content: result.content,
+        messageId: result.messageId,
+        request: result.request,
+        timestamp: result.timestamp,
+        origin: result.origin,
+      },
+      {
+        allowedHosts: this.config.allowedHosts,
+        backend: this.backend,
+        ...options,
+      }
+    );
   }
 
   /**
    * Verify a proof from serialized data
    * Useful for verifying proofs received from third parties
    *
+   * The serialized text, model, message id, request and timestamp are
+   * checked against the proof, so edited wrapper fields are rejected.
+   *
    * @param serialized - Serialized proof data
+   * @param options - Verification options (host allowlist, policy)
    * @returns Verification result
    */
   static async verifySerializedProof(
-    serialized: SerializedClaudeProof
+    serialized: SerializedClaudeProof,
+    options?: VerifyOptions
   ): Promise<VerificationResult> {
+    let proof: Proof;
     try {
-      const proof = JSON.parse(serialized.proofJson) as Proof;
-      const isValid = await verifyProof(proof);
-
-      return {
-        isValid,
-        verifiedEndpoint: isValid
-          ? `${ANTHROPIC_API_ENDPOINT}/messages`
-          : undefined,
-      };
+      proof = JSON.parse(serialized.proofJson) as Proof;
     } catch (error) {
-      return {
-        isValid: false,
-        error: error instanceof Error ? error.message : "Verification failed",
-      };
+      return failedVerification(
+        "malformed_proof",
+        error instanceof Error ? error.message : "Verification failed"
+      );
     }
+
+    return verifyClaudeProof(
+      proof,
+      {
+        text: serialized.text,
+        model: serialized.model,
+        messageId: serialized.messageId,
+        request: serialized.request,
+        timestamp: serialized.timestamp,
+        origin: serialized.origin,
+      },
+      options
+    );
   }
 
   /**
@@ -232,7 +669,12 @@ export class VerifiableClaude {
       text: result.text,
       timestamp: result.timestamp,
       model: result.model,
+      messageId: result.messageId,
+      request: result.request,
       provider: "reclaim",
+      proofMode: result.proofMode,
+      inferenceProvider: result.inferenceProvider,
+      origin: result.origin,
     };
   }
 
@@ -0,0 +1,216 @@
+import type { Proof } from "@reclaimprotocol/js-sdk";
+import type {
+  ProofBackend,
+  ProviderGenerateOptions,
+  ProviderVerifyOptions,
+  SerializedProof,
+  VerifiableInferenceConfig,
+  VerifiableResult,
+  VerificationResult,
+  VerifyOptions,
+} from "./types.js";
+import { resolveBackend } from "./backend.js";
+import { builtInProviders } from "./providers.js";
+import { compileResponseRules } from "./matching.js";
+import { toGenerationError } from "./errors.js";
+import { getProofMode } from "./policy.js";
+import {
+  failedVerification,
+  getAttestedOrigin,
+  parseProvenResponse,
+  verifyInferenceProof,
+} from "./verification.js";
+
+/**
+ * VerifiableInference - Verifiable chat completions from any provider
+ *
+ * Works like VerifiableClaude, but the request format, authentication
+ * and response parsing come from an InferenceProvider adapter, so the
+ * same client and verifier handle Anthropic, OpenAI, OpenRouter or a
+ * self-hosted OpenAI-compatible server behind TLS.
+ *
+ * @example
+ * ```typescript
+ * const client = new VerifiableInference({
+ *   provider: openAIProvider(),
+ *   apiKey: process.env.OPENAI_API_KEY!,
+ *   reclaimAppId: process.env.RECLAIM_APP_ID!,
+ *   reclaimAppSecret: process.env.RECLAIM_APP_SECRET!,
+ * });
+ *
+ * const result = await client.generate({ model: "gpt-4o", prompt: "Hello" });
+ * const serialized = client.serializeResult(result);
+ *
+ * // Any verifier can check proofs from any known provider
+ * await VerifiableInference.verifySerializedProof(serialized);
+ * ```
+ */
+export class VerifiableInference {
+  private backend: ProofBackend;
+  private config: VerifiableInferenceConfig;
+
+  constructor(config: VerifiableInferenceConfig) {
+    this.config = config;
+    this.backend = resolveBackend(config);
+  }
+
+  /**
+   * Generate text with verifiable proof
+   *
+   * @param options - Generation options
+   * @returns Promise with generated text and cryptographic proof
+   */
+  async generate(options: ProviderGenerateOptions): Promise<VerifiableResult> {
+    const { provider, apiKey } = this.config;
+    const proofOptions = { ...this.config.proofOptions, ...options.proofOptions };
+    const request = {
+      url: provider.url,
+      method: "POST",
+      body: JSON.stringify(provider.buildBody(options)),
+    };
+
+    let apiError: Error | undefined;
+    try {
+      const proof = await this.backend.fetchWithProof({
+        ...request,
+        headers: { "Content-Type": "application/json" },
+        secretHeaders: provider.authHeaders(apiKey),
+        ...compileResponseRules(provider.responseRules),
+        options: proofOptions,
+      });
+
+      const response = parseProvenResponse(proof);
+      apiError = provider.parseError?.(response);
+      if (apiError) {
+        throw apiError;
+      }
+      const parsed = provider.parseResponse(response);
+      const attested = getAttestedOrigin(proof);
+
+      return {
+        text: parsed.text,
+        proof,
+        timestamp: attested.timestampS * 1000,
+        attested,
+        model: parsed.model,
+        messageId: parsed.id,
+        request,
+        provider: "reclaim",
+        proofMode: getProofMode(proof),
+        inferenceProvider: provider.name,
+        origin: attested.host,
+        rawResponse: response,
+      };
+    } catch (error) {
+      // Errors returned by the API are raised as the provider's own type
+      if (apiError) {
+        throw apiError;
+      }
+      throw toGenerationError(error);
+    }
+  }
+
+  /**
+   * Verify a proof from a previous generation
+   *
+   * @param result - The result containing the proof to verify
+   * @param options - Verification options (host allowlist, policy)
+   * @returns Verification result with any mismatched fields
+   */
+  async verify(
+    result: VerifiableResult,
+    options?: VerifyOptions
+  ): Promise<VerificationResult> {
+    const { provider } = this.config;
+    return verifyInferenceProof(
+      result.proof,
+      {
+        text: result.text,
+        model: result.model,
+        messageId: result.messageId,
+        request: result.request,
+        timestamp: result.timestamp,
+        origin: result.origin,
+      },
+      {
+        allowedHosts: [new URL(provider.url).host],
+        backend: this.backend,
+        ...options,
+      },
+      provider.parseResponse
+    );
+  }
+
+  /**
+   * Verify a serialized proof from any provider
+   *
+   * The provider adapter is looked up by `inferenceProvider` (defaulting to
+   * "anthropic"), and only that adapter's host is accepted as origin unless
+   * `allowedHosts` is given.
+   *
+   * @param serialized - Serialized proof data
+   * @param options - Verification options and extra provider adapters
+   * @returns Verification result
+   */
+  static async verifySerializedProof(
+    serialized: SerializedProof,
+    options: ProviderVerifyOptions = {}
+  ): Promise<VerificationResult> {
+    const { providers = [], ...verifyOptions } = options;
+    const name = serialized.inferenceProvider ?? "anthropic";
+    const provider = [...providers, ...builtInProviders()].find(
+      (candidate) => candidate.name === name
+    );
+
+    if (!provider) {
+      return failedVerification(
+        "unknown_provider",
+        `Unknown inference provider '${name}'`
+      );
+    }
+    let proof: Proof;
+    try {
+      proof = JSON.parse(serialized.proofJson) as Proof;
+    } catch (error) {
+      return failedVerification(
+        "malformed_proof",
+        error instanceof Error ? error.message : "Verification failed"
+      );
+    }
+
+    return verifyInferenceProof(
+      proof,
+      {
+        text: serialized.text,
+        model: serialized.model,
+        messageId: serialized.messageId,
+        request: serialized.request,
+        timestamp: serialized.timestamp,
+        origin: serialized.origin,
+      },
+      { allowedHosts: [new URL(provider.url).host], ...verifyOptions },
+      provider.parseResponse
+    );
+  }
+
+  /**
+   * Serialize a result for storage or transmission
+   *
+   * @param result - The result to serialize
+   * @returns Serialized proof that can be stored or sent to third parties
+   */
+  serializeResult(result: VerifiableResult): SerializedProof {
+    return {
+      proofJson: JSON.stringify(result.proof),
+      text: result.text,
+      timestamp: result.timestamp,
+      model: result.model,
+      messageId: result.messageId,
+      request: result.request,
+      provider: "reclaim",
+      proofMode: result.proofMode,
+      inferenceProvider: result.inferenceProvider,
+      origin: result.origin,
+    };
+  }
+}
@@ -0,0 +1,264 @@
+import { createHash } from "crypto";
+import { appendFile, readFile } from "fs/promises";
+import type {
+  AuditLog,
+  LedgerBreak,
+  LedgerEntry,
+  LedgerVerificationResult,
+  ProviderVerifyOptions,
+  SerializedProof,
+} from "./types.js";
+import { VerifiableInference } from "./inference.js";
+import { canonicalJson, getProofId } from "./store.js";
+
+/**
+ * `previousHash` of the first entry in a ledger
+ */
+export const LEDGER_GENESIS_HASH = "0".repeat(64);
+
+function sha256(data: string): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * Hash of the proven request (url, method and body) of a proof
+ */
+export function getRequestHash(proof: SerializedProof): string {
+  return sha256(canonicalJson(proof.request ?? null));
+}
+
+/**
+ * Hash of a ledger entry, covering every field except `hash` itself
+ */
+export function getEntryHash(entry: Omit<LedgerEntry, "hash">): string {
+  return sha256(
+    canonicalJson({
+      sequence: entry.sequence,
+      timestamp: entry.timestamp,
+      proofId: entry.proofId,
+      requestHash: entry.requestHash,
+      proof: entry.proof,
+      previousHash: entry.previousHash,
+    })
+  );
+}
+
+/**
+ * Build the entry that follows `previous` in a chain
+ */
+export function createLedgerEntry(
+  proof: SerializedProof,
+  previous?: LedgerEntry,
+  timestamp = Date.now()
+): LedgerEntry {
+  const entry = {
+    sequence: previous ? previous.sequence + 1 : 0,
+    timestamp,
+    proofId: getProofId(proof),
+    requestHash: getRequestHash(proof),
+    proof,
+    previousHash: previous ? previous.hash : LEDGER_GENESIS_HASH,
+  };
+  return { ...entry, hash: getEntryHash(entry) };
+}
+
+/**
+ * MemoryAuditLog - Audit log kept in process memory
+ */
+export class MemoryAuditLog implements AuditLog {
+  private log: LedgerEntry[] = [];
+
+  async append(proof: SerializedProof): Promise<LedgerEntry> {
+    const entry = createLedgerEntry(proof, this.log[this.log.length - 1]);
+    this.log.push(entry);
+    return entry;
+  }
+
+  async entries(): Promise<LedgerEntry[]> {
+    return [...this.log];
+  }
+}
+
+/**
+ * JsonlAuditLog - Audit log in an append-only JSON Lines file
+ *
+ * Appends are serialized, so concurrent `generate()` calls still produce
+ * a single unbroken chain.
+ *
+ * @example
+ * ```typescript
+ * const auditLog = new JsonlAuditLog("./audit.jsonl");
+ * const client = createVerifiableClaude({ apiKey, reclaimAppId, reclaimAppSecret, auditLog });
+ *
+ * await client.generate({ prompt: "Approve loan #1234?" }); // logged
+ * const { isValid, firstBreak } = await verifyLedger(auditLog);
+ * ```
+ */
+export class JsonlAuditLog implements AuditLog {
+  private head?: Promise<LedgerEntry | undefined>;
+
+  constructor(private readonly filePath: string) {}
+
+  append(proof: SerializedProof): Promise<LedgerEntry> {
+    const appending = (this.head ?? this.readHead()).then(async (previous) => {
+      const entry = createLedgerEntry(proof, previous);
+      await appendFile(this.filePath, JSON.stringify(entry) + "\n", "utf-8");
+      return entry;
+    });
+    // A failed append leaves the head unchanged
+    this.head = appending.catch(() => this.readHead());
+    return appending;
+  }
+
+  async entries(): Promise<LedgerEntry[]> {
+    await this.head;
+    return this.readEntries();
+  }
+
+  private async readHead(): Promise<LedgerEntry | undefined> {
+    const entries = await this.readEntries();
+    return entries[entries.length - 1];
+  }
+
+  private async readEntries(): Promise<LedgerEntry[]> {
+    let contents: string;
+    try {
+      contents = await readFile(this.filePath, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+    return contents
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line, index) => {
+        try {
+          return JSON.parse(line) as LedgerEntry;
+        } catch {
+          throw new Error(`${this.filePath}:${index + 1}: invalid JSON`);
+        }
+      });
+  }
+}
+
+/**
+ * Options for `verifyLedger()`
+ */
+export interface LedgerVerifyOptions extends ProviderVerifyOptions {
+  /** Re-verify every proof, not just the chain (default: true) */
+  verifyProofs?: boolean;
+  /**
+   * Head hash recorded elsewhere (e.g. anchored on-chain). Without it,
+   * entries deleted from the end of the log cannot be detected.
+   */
+  expectedHeadHash?: string;
+}
+
+/**
+ * Replay a hash-chained audit log
+ *
+ * Recomputes every entry hash and link, checks that sequence numbers are
+ * consecutive, and re-verifies every proof. Stops at the first problem:
+ * a modified entry, a broken link, a deleted entry (sequence gap), a
+ * reordered entry, or a proof that no longer verifies.
+ *
+ * @param log - Audit log or its entries
+ * @param options - Proof verification options, `verifyProofs` and `expectedHeadHash`
+ * @returns Whether the ledger is intact, its head hash and the first break
+ */
+export async function verifyLedger(
+  log: AuditLog | LedgerEntry[],
+  options: LedgerVerifyOptions = {}
+): Promise<LedgerVerificationResult> {
+  const { verifyProofs = true, expectedHeadHash, ...verifyOptions } = options;
+  const entries = Array.isArray(log) ? log : await log.entries();
+
+  let previous: LedgerEntry | undefined;
+  const fail = (
+    index: number,
+    type: LedgerBreak,
+    detail: string
+  ): LedgerVerificationResult => ({
+    isValid: false,
+    entryCount: entries.length,
+    headHash: entries[entries.length - 1]?.hash ?? LEDGER_GENESIS_HASH,
+    firstBreak: { index, type, detail },
+  });
+
+  for (const [index, entry] of entries.entries()) {
+    if (getEntryHash(entry) !== entry.hash) {
+      return fail(index, "modified", `Entry ${index} does not match its hash`);
+    }
+    if (
+      entry.proofId !== getProofId(entry.proof) ||
+      entry.requestHash !== getRequestHash(entry.proof)
+    ) {
+      return fail(index, "modified", `Entry ${index} hashes do not match its proof`);
+    }
+
+    const expectedSequence = previous ? previous.sequence + 1 : 0;
+    if (entry.sequence < expectedSequence) {
+      return fail(
+        index,
+        "reordered",
+        `Entry ${index} has sequence ${entry.sequence}, expected ${expectedSequence}`
+      );
+    }
+    if (entry.sequence > expectedSequence) {
+      const missing =
+        entry.sequence - 1 === expectedSequence
+          ? `Entry ${expectedSequence} is`
+          : `Entries ${expectedSequence}-${entry.sequence - 1} are`;
+      const movedLater = entries
+        .slice(index + 1)
+        .some((later) => later.sequence === expectedSequence);
+      return movedLater
+        ? fail(
+            index,
+            "reordered",
+            `Entry ${index} has sequence ${entry.sequence}, expected ${expectedSequence}`
+          )
+        : fail(
+            index,
+            "deleted",
+            `${missing} missing before entry ${index}`
+          );
+    }
+
+    const expectedPrevious = previous ? previous.hash : LEDGER_GENESIS_HASH;
+    if (entry.previousHash !== expectedPrevious) {
+      return fail(
+        index,
+        "broken_link",
+        `Entry ${index} does not link to the previous entry`
+      );
+    }
+
+    if (verifyProofs) {
+      const verification = await VerifiableInference.verifySerializedProof(
+        entry.proof,
+        verifyOptions
+      );
+      if (!verification.isValid) {
+        return fail(
+          index,
+          "invalid_proof",
+          `Entry ${index} proof is invalid: ${verification.error}`
+        );
+      }
+    }
+    previous = entry;
+  }
+
+  const headHash = previous ? previous.hash : LEDGER_GENESIS_HASH;
+  if (expectedHeadHash !== undefined && headHash !== expectedHeadHash) {
+    return fail(
+      entries.length,
+      "deleted",
+      "Ledger head does not match the expected head hash"
+    );
+  }
+  return { isValid: true, entryCount: entries.length, headHash };
+}
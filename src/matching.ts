@@ -0,0 +1,206 @@
+import type { ResponseMatch, ResponseRedaction, ResponseRule } from "./types.js";
+
+/**
+ * Extracted parameter holding a whole proven response body
+ */
+export const RESPONSE_PARAM = "response";
+
+/**
+ * Rules proving a whole JSON response body, extracted as `response`
+ *
+ * The body is captured from its first `{` to its last `}`, so field order
+ * and braces inside strings do not matter, and error bodies are proven
+ * too (and raised as typed errors) rather than failing the match.
+ */
+export const JSON_RESPONSE_RULES: ResponseRule[] = [
+  { type: "jsonPath", path: "$", name: RESPONSE_PARAM },
+];
+
+/**
+ * Response matches and redactions for a proof request
+ */
+export interface CompiledResponseRules {
+  /** Rules the revealed response must match */
+  responseMatches: ResponseMatch[];
+  /** Parts of the response to reveal, if not all of it */
+  responseRedactions?: ResponseRedaction[];
+}
+
+/**
+ * A step in a JSON path: a property name or an array index
+ */
+export type JsonPathSegment = string | number;
+
+const PATH_SEGMENT = /\.([A-Za-z_]\w*)|\[(\d+)\]/y;
+
+/**
+ * Property names that would walk onto a prototype instead of a field
+ */
+const PROTOTYPE_SEGMENTS = new Set(["__proto__", "constructor", "prototype"]);
+
+/**
+ * Split a JSON path such as `$.content[0].text` into its segments
+ *
+ * Supports the subset of JSONPath that names a single value: dotted
+ * property names and array indexes. `$` alone has no segments. Paths come
+ * from proofs too, so `__proto__`, `constructor` and `prototype` are
+ * refused.
+ *
+ * @throws Error if the path is outside that subset
+ */
+export function parseJsonPath(path: string): JsonPathSegment[] {
+  if (!path.startsWith("$")) {
+    throw new Error(`Invalid JSON path '${path}': must start with '$'`);
+  }
+  const segments: JsonPathSegment[] = [];
+  PATH_SEGMENT.lastIndex = 1;
+  while (PATH_SEGMENT.lastIndex < path.length) {
+    const match = PATH_SEGMENT.exec(path);
+    if (!match) {
+      throw new Error(`Invalid JSON path '${path}'`);
+    }
+    if (match[1] !== undefined && PROTOTYPE_SEGMENTS.has(match[1])) {
+      throw new Error(`Invalid JSON path '${path}': '${match[1]}' is not allowed`);
+    }
+    segments.push(match[1] ?? Number(match[2]));
+  }
+  return segments;
+}
+
+/**
+ * Default extracted parameter name for a JSON path
+ *
+ * @example
+ * ```typescript
+ * getJsonPathParamName("$.content[0].text"); // "content_0_text"
+ * getJsonPathParamName("$"); // "response"
+ * ```
+ */
+export function getJsonPathParamName(path: string): string {
+  const segments = parseJsonPath(path);
+  return segments.length === 0 ? RESPONSE_PARAM : segments.join("_");
+}
+
+/**
+ * Regex capturing the JSON scalar after `"leaf":` into the named group
+ */
+function fieldRegex(leaf: string, name: string): string {
+  return (
+    `"${leaf}":\\s*(?<${name}>"(?:[^"\\\\]|\\\\.)*"` +
+    `|-?\\d+(?:\\.\\d+)?(?:[eE][+-]?\\d+)?|true|false|null)`
+  );
+}
+
+/**
+ * Compile response rules into zkFetch response matches and redactions
+ *
+ * A `$` rule captures the whole body. Any other JSON path reveals only
+ * that value (redacting everything not revealed by another rule) and
+ * captures it by its key, so field rules must name scalars (strings,
+ * numbers, booleans or null) ending in distinct property names.
+ * `contains` and `regex` rules are matched against what is revealed.
+ *
+ * @param rules - Response rules
+ * @returns Matches and redactions for a ProofRequest
+ * @throws Error if a path is invalid, or field rules are ambiguous or
+ * combined with a whole-body rule
+ *
+ * @example
+ * ```typescript
+ * compileResponseRules([{ type: "jsonPath", path: "$.model" }]);
+ * // { responseMatches: [{ type: "regex", value: '"model":\\s*(?<model>...)' }],
+ * //   responseRedactions: [{ jsonPath: "$.model" }] }
+ * ```
+ */
+export function compileResponseRules(rules: ResponseRule[]): CompiledResponseRules {
+  const responseMatches: ResponseMatch[] = [];
+  const responseRedactions: ResponseRedaction[] = [];
+  const leaves = new Set<string>();
+  const names = new Set<string>();
+  let wholeBody = false;
+
+  for (const rule of rules) {
+    if (rule.type !== "jsonPath") {
+      responseMatches.push({ type: rule.type, value: rule.value });
+      continue;
+    }
+
+    const segments = parseJsonPath(rule.path);
+    const name = rule.name ?? getJsonPathParamName(rule.path);
+    if (!/^[A-Za-z_]\w*$/.test(name)) {
+      throw new Error(`Invalid parameter name '${name}' for ${rule.path}`);
+    }
+    if (names.has(name)) {
+      throw new Error(`Response rules extract '${name}' twice`);
+    }
+    names.add(name);
+
+    if (segments.length === 0) {
+      wholeBody = true;
+      responseMatches.push({ type: "regex", value: `(?<${name}>\\{[\\s\\S]*\\})` });
+      continue;
+    }
+    const leaf = segments[segments.length - 1];
+    if (typeof leaf !== "string") {
+      throw new Error(`JSON path '${rule.path}' must end in a field name`);
+    }
+    if (leaves.has(leaf)) {
+      throw new Error(
+        `JSON paths must end in distinct field names ('${leaf}' is repeated)`
+      );
+    }
+    leaves.add(leaf);
+    responseMatches.push({ type: "regex", value: fieldRegex(leaf, name) });
+    responseRedactions.push({ jsonPath: rule.path });
+  }
+
+  if (wholeBody && responseRedactions.length > 0) {
+    throw new Error("A whole-body rule cannot be combined with field rules");
+  }
+  return responseRedactions.length > 0
+    ? { responseMatches, responseRedactions }
+    : { responseMatches };
+}
+
+/**
+ * The parts of a response body that redactions reveal
+ *
+ * A stand-in for the attestor's redaction: each JSON path reveals its
+ * `"key":value` pair, each regex its matched text, joined by `*` for the
+ * hidden bytes in between. Used by `LocalProofBackend`.
+ *
+ * @throws Error if the body is not JSON or a path has no value
+ */
+export function redactResponse(
+  body: string,
+  redactions: ResponseRedaction[]
+): string {
+  const parsed = redactions.some((redaction) => redaction.jsonPath)
+    ? JSON.parse(body)
+    : undefined;
+  return redactions
+    .map((redaction) => {
+      if (redaction.jsonPath) {
+        const segments = parseJsonPath(redaction.jsonPath);
+        const value = segments.reduce<unknown>(
+          (node, segment) =>
+            typeof node === "object" && node !== null
+              ? (node as Record<JsonPathSegment, unknown>)[segment]
+              : undefined,
+          parsed
+        );
+        if (value === undefined) {
+          throw new Error(`Response has no value at ${redaction.jsonPath}`);
+        }
+        return segments.length === 0
+          ? JSON.stringify(value)
+          : `"${segments[segments.length - 1]}":${JSON.stringify(value)}`;
+      }
+      const match = redaction.regex ? new RegExp(redaction.regex).exec(body) : null;
+      if (!match) {
+        throw new Error(`Response does not match redaction ${redaction.regex}`);
+      }
+      return match[0];
+    })
+    .join("*");
+}
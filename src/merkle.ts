@@ -0,0 +1,160 @@
+import { createHash } from "crypto";
+import type {
+  InclusionProof,
+  MerkleBatch,
+  MerklePathStep,
+  ProviderVerifyOptions,
+  SerializedProof,
+  VerificationResult,
+} from "./types.js";
+import { VerifiableInference } from "./inference.js";
+import { getProofId } from "./store.js";
+
+// Leaf and node hashes use distinct prefixes, so an inner node can never
+// be passed off as a leaf (second-preimage attack)
+const LEAF_PREFIX = Buffer.from([0x00]);
+const NODE_PREFIX = Buffer.from([0x01]);
+
+/**
+ * Merkle leaf hash of a proof id
+ */
+export function hashMerkleLeaf(proofId: string): string {
+  return createHash("sha256")
+    .update(LEAF_PREFIX)
+    .update(Buffer.from(proofId, "hex"))
+    .digest("hex");
+}
+
+function hashNode(left: string, right: string): string {
+  return createHash("sha256")
+    .update(NODE_PREFIX)
+    .update(Buffer.from(left, "hex"))
+    .update(Buffer.from(right, "hex"))
+    .digest("hex");
+}
+
+/**
+ * Build every level of the tree, leaves first. A node without a sibling
+ * is carried up unchanged rather than paired with itself.
+ */
+function buildLevels(leaves: string[]): string[][] {
+  const levels = [leaves];
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashNode(level[i], level[i + 1]) : level[i]);
+    }
+    levels.push(next);
+  }
+  return levels;
+}
+
+/**
+ * Commit to a batch of proofs with one Merkle root
+ *
+ * Leaves are the content-addressed proof ids, in the given order. Publish
+ * `root` once (on-chain, in a transparency log, ...) and hand each proof
+ * out with its inclusion proof.
+ *
+ * @param proofs - Serialized proofs to batch
+ * @returns Root, leaf proof ids and one inclusion proof per leaf
+ *
+ * @example
+ * ```typescript
+ * const batch = buildMerkleBatch(hourOfProofs);
+ * await anchor(batch.root);
+ *
+ * // Later, for any single response:
+ * await verifyBatchedProof(hourOfProofs[7], batch.inclusionProofs[7], anchoredRoot);
+ * ```
+ */
+export function buildMerkleBatch(proofs: SerializedProof[]): MerkleBatch {
+  if (proofs.length === 0) {
+    throw new Error("Cannot build a Merkle batch from zero proofs");
+  }
+
+  const proofIds = proofs.map(getProofId);
+  const levels = buildLevels(proofIds.map(hashMerkleLeaf));
+  const root = levels[levels.length - 1][0];
+
+  const inclusionProofs = proofIds.map((proofId, leafIndex) => {
+    const path: MerklePathStep[] = [];
+    let index = leafIndex;
+    for (const level of levels.slice(0, -1)) {
+      const sibling = index % 2 === 0 ? index + 1 : index - 1;
+      if (sibling < level.length) {
+        path.push({
+          hash: level[sibling],
+          position: sibling < index ? "left" : "right",
+        });
+      }
+      index = Math.floor(index / 2);
+    }
+    return { proofId, index: leafIndex, size: proofIds.length, path, root };
+  });
+
+  return { root, proofIds, inclusionProofs };
+}
+
+/**
+ * Check that a proof is a leaf under a Merkle root
+ *
+ * Only the hashes are checked; use `verifyBatchedProof()` to also verify
+ * the proof itself.
+ *
+ * @param proof - The serialized proof
+ * @param inclusion - Its inclusion proof
+ * @param root - Trusted root (e.g. read from a chain), not `inclusion.root`
+ * @returns Whether the path leads from the proof to `root`
+ */
+export function verifyInclusion(
+  proof: SerializedProof,
+  inclusion: InclusionProof,
+  root: string
+): boolean {
+  const proofId = getProofId(proof);
+  if (proofId !== inclusion.proofId) {
+    return false;
+  }
+  const computed = inclusion.path.reduce(
+    (hash, step) =>
+      step.position === "left" ? hashNode(step.hash, hash) : hashNode(hash, step.hash),
+    hashMerkleLeaf(proofId)
+  );
+  return computed === root.toLowerCase().replace(/^0x/, "");
+}
+
+/**
+ * Verify a proof and its inclusion in a Merkle batch
+ *
+ * @param proof - The serialized proof
+ * @param inclusion - Its inclusion proof
+ * @param root - Trusted root the batch was anchored under
+ * @param options - Verification options for the proof itself
+ * @returns Verification result; invalid if the proof is not in the batch
+ */
+export async function verifyBatchedProof(
+  proof: SerializedProof,
+  inclusion: InclusionProof,
+  root: string,
+  options?: ProviderVerifyOptions
+): Promise<VerificationResult> {
+  const verification = await VerifiableInference.verifySerializedProof(
+    proof,
+    options
+  );
+  if (verification.isValid && !verifyInclusion(proof, inclusion, root)) {
+    return {
+      ...verification,
+      isValid: false,
+      verifiedEndpoint: undefined,
+      error: "Proof is not included under the given Merkle root",
+      failure: {
+        code: "not_in_batch",
+        message: "Proof is not included under the given Merkle root",
+      },
+    };
+  }
+  return verification;
+}
@@ -0,0 +1,168 @@
+import { ethers } from "ethers";
+import type { Proof } from "@reclaimprotocol/js-sdk";
+import type {
+  OnchainCalldata,
+  OnchainProof,
+  OnchainVerificationResult,
+  SerializedProof,
+  VerifiableResult,
+} from "./types.js";
+import { getClaimIdentifier, getClaimSignData } from "./claim.js";
+
+/**
+ * ABI of Reclaim's verifier contract entry point
+ */
+export const RECLAIM_VERIFIER_ABI = [
+  "function verifyProof(((string provider, string parameters, string context) claimInfo, ((bytes32 identifier, address owner, uint32 timestampS, uint32 epoch) claim, bytes[] signatures) signedClaim) proof)",
+];
+
+const verifierInterface = new ethers.Interface(RECLAIM_VERIFIER_ABI);
+const proofType = verifierInterface.getFunction("verifyProof")!.inputs[0];
+
+/**
+ * Convert a proof to the verifier contract's struct layout
+ *
+ * @param source - A result, a serialized proof, or a raw Reclaim proof
+ */
+export function toOnchainProof(
+  source: VerifiableResult | SerializedProof | Proof
+): OnchainProof {
+  const proof: Proof =
+    "proofJson" in source
+      ? JSON.parse(source.proofJson)
+      : "claimData" in source
+        ? source
+        : source.proof;
+  const { claimData } = proof;
+  return {
+    claimInfo: {
+      provider: claimData.provider,
+      parameters: claimData.parameters,
+      context: claimData.context,
+    },
+    signedClaim: {
+      claim: {
+        identifier: claimData.identifier,
+        owner: claimData.owner,
+        timestampS: claimData.timestampS,
+        epoch: claimData.epoch,
+      },
+      signatures: proof.signatures,
+    },
+  };
+}
+
+function toTuple(proof: OnchainProof): unknown[] {
+  const { claimInfo, signedClaim } = proof;
+  const { claim } = signedClaim;
+  return [
+    [claimInfo.provider, claimInfo.parameters, claimInfo.context],
+    [
+      [claim.identifier, claim.owner, claim.timestampS, claim.epoch],
+      signedClaim.signatures,
+    ],
+  ];
+}
+
+/**
+ * ABI-encode a proof for Reclaim's verifier contract
+ *
+ * @param source - A result, a serialized proof, or a raw Reclaim proof
+ * @returns The struct, the encoded tuple and `verifyProof` calldata
+ *
+ * @example
+ * ```typescript
+ * const { calldata } = encodeOnchainProof(client.serializeResult(result));
+ * await signer.sendTransaction({ to: RECLAIM_VERIFIER_ADDRESS, data: calldata });
+ * ```
+ */
+export function encodeOnchainProof(
+  source: VerifiableResult | SerializedProof | Proof
+): OnchainCalldata {
+  const proof = toOnchainProof(source);
+  const tuple = toTuple(proof);
+  return {
+    proof,
+    encoded: ethers.AbiCoder.defaultAbiCoder().encode([proofType], [tuple]),
+    calldata: verifierInterface.encodeFunctionData("verifyProof", [tuple]),
+  };
+}
+
+/**
+ * Decode `verifyProof` calldata or an encoded proof tuple
+ *
+ * @param data - Hex calldata (with selector) or ABI-encoded tuple
+ * @returns The proof struct
+ */
+export function decodeOnchainProof(data: string): OnchainProof {
+  const selector = verifierInterface.getFunction("verifyProof")!.selector;
+  const [decoded] = data.toLowerCase().startsWith(selector)
+    ? verifierInterface.decodeFunctionData("verifyProof", data)
+    : ethers.AbiCoder.defaultAbiCoder().decode([proofType], data);
+
+  const [[provider, parameters, context], [[identifier, owner, timestampS, epoch], signatures]] =
+    decoded;
+  return {
+    claimInfo: { provider, parameters, context },
+    signedClaim: {
+      claim: {
+        identifier: identifier.toLowerCase(),
+        owner: owner.toLowerCase(),
+        timestampS: Number(timestampS),
+        epoch: Number(epoch),
+      },
+      signatures: [...signatures],
+    },
+  };
+}
+
+/**
+ * Check an on-chain proof offline, as the verifier contract would
+ *
+ * Recomputes the identifier from `claimInfo` and recovers the witness
+ * addresses from the signatures. Anyone can sign a claim, so like the
+ * contract, which checks the signers against the epoch's witness set,
+ * every signer must be in `allowedSigners`.
+ *
+ * @param proof - Calldata, an encoded tuple, or a decoded struct
+ * @param allowedSigners - Witness addresses to accept
+ * @returns Identifier and signature checks, with the recovered signers
+ */
+export function verifyOnchainProof(
+  proof: string | OnchainProof,
+  allowedSigners: string[]
+): OnchainVerificationResult {
+  let signers: string[] = [];
+  let identifierValid = false;
+  try {
+    const decoded = typeof proof === "string" ? decodeOnchainProof(proof) : proof;
+    const { claimInfo, signedClaim } = decoded;
+
+    identifierValid =
+      getClaimIdentifier(claimInfo) === signedClaim.claim.identifier.toLowerCase();
+    if (!identifierValid) {
+      throw new Error("Claim identifier does not match claim info");
+    }
+
+    const signData = getClaimSignData({ ...claimInfo, ...signedClaim.claim });
+    signers = signedClaim.signatures.map((signature) =>
+      ethers.verifyMessage(signData, signature).toLowerCase()
+    );
+    if (signers.length === 0) {
+      throw new Error("Proof has no signatures");
+    }
+    const allowed = allowedSigners.map((signer) => signer.toLowerCase());
+    const unknown = signers.find((signer) => !allowed.includes(signer));
+    if (unknown) {
+      throw new Error(`Signer ${unknown} is not allowed`);
+    }
+    return { isValid: true, identifierValid, signers };
+  } catch (error) {
+    return {
+      isValid: false,
+      identifierValid,
+      signers,
+      error: error instanceof Error ? error.message : "Verification failed",
+    };
+  }
+}
@@ -0,0 +1,194 @@
+import type { Proof } from "@reclaimprotocol/js-sdk";
+import { recoverSigners } from "./claim.js";
+import type {
+  AttestedOrigin,
+  PolicyEvaluation,
+  PolicyRule,
+  PolicyRuleResult,
+  ProofMode,
+  VerificationPolicy,
+} from "./types.js";
+
+/**
+ * Witness URLs used by Reclaim's TEE attestor
+ */
+export const TEE_ATTESTOR_URLS = ["wss://attestor.reclaimprotocol.org:444/ws"];
+
+/**
+ * Trust model reported by a proof's witnesses
+ *
+ * Read from the unsigned witness URLs: it records which attestor the
+ * backend used, not a verified fact. Use a `requireTee` policy to check it.
+ */
+export function getProofMode(proof: Proof): ProofMode {
+  const witnesses = proof.witnesses ?? [];
+  return witnesses.length > 0 &&
+    witnesses.every((witness) => TEE_ATTESTOR_URLS.includes(witness.url))
+    ? "tee"
+    : "zk";
+}
+
+/**
+ * Seconds a claim may be dated ahead of the verifier's clock
+ */
+export const MAX_CLOCK_SKEW_SECONDS = 60;
+
+/**
+ * Distinct addresses that signed a proof
+ *
+ * Witness ids and URLs in `proof.witnesses` are not signed, so witness
+ * identity always comes from the signatures.
+ */
+function distinctSigners(proof: Proof): string[] {
+  return [...new Set(recoverSigners(proof))];
+}
+
+/**
+ * Whether a proof was signed only by TEE attestors
+ *
+ * The attestor URL in `proof.witnesses` is not signed, so TEE mode is
+ * decided by the recovered signers alone.
+ *
+ * @param proof - The Reclaim proof
+ * @param teeSigners - Addresses of trusted TEE attestor keys
+ */
+export function isTeeProof(proof: Proof, teeSigners: string[]): boolean {
+  const trusted = teeSigners.map((address) => address.toLowerCase());
+  try {
+    const signers = distinctSigners(proof);
+    return signers.length > 0 && signers.every((s) => trusted.includes(s));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Evaluate a rule on the recovered signers, failing if they cannot be recovered
+ */
+function signerRule(
+  rule: PolicyRule,
+  proof: Proof,
+  check: (signers: string[]) => { passed: boolean; detail: string }
+): PolicyRuleResult {
+  try {
+    return { rule, ...check(distinctSigners(proof)) };
+  } catch (error) {
+    return {
+      rule,
+      passed: false,
+      detail: `Could not recover signers: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    };
+  }
+}
+
+/**
+ * Evaluate a verification policy against a proof
+ *
+ * Only rules set on the policy are evaluated.
+ *
+ * @param proof - The Reclaim proof
+ * @param policy - The trust requirements
+ * @param context - Attested origin, proven model and current time
+ * @returns Passed and failed rules
+ */
+export function evaluatePolicy(
+  proof: Proof,
+  policy: VerificationPolicy,
+  context: { attested: AttestedOrigin; model: string; now?: number }
+): PolicyEvaluation {
+  const results: PolicyRuleResult[] = [];
+  const now = context.now ?? Date.now();
+
+  if (policy.maxAgeSeconds !== undefined) {
+    const ageSeconds = Math.floor(now / 1000) - context.attested.timestampS;
+    results.push({
+      rule: "maxAge",
+      passed: ageSeconds >= -MAX_CLOCK_SKEW_SECONDS && ageSeconds <= policy.maxAgeSeconds,
+      detail:
+        ageSeconds < -MAX_CLOCK_SKEW_SECONDS
+          ? `Proof is dated ${-ageSeconds}s in the future`
+          : `Proof is ${ageSeconds}s old (max ${policy.maxAgeSeconds}s)`,
+    });
+  }
+
+  if (policy.allowedModels) {
+    const allowed = (policy.allowedModels as string[]).includes(context.model);
+    results.push({
+      rule: "allowedModels",
+      passed: allowed,
+      detail: `Proven model ${context.model} is ${allowed ? "" : "not "}allowed`,
+    });
+  }
+
+  // Reclaim witness ids are the witnesses' signing addresses
+  if (policy.allowedWitnessIds) {
+    const ids = policy.allowedWitnessIds.map((id) => id.toLowerCase());
+    results.push(
+      signerRule("allowedWitnessIds", proof, (signers) => {
+        const unknown = signers.filter((s) => !ids.includes(s));
+        return {
+          passed: signers.length > 0 && unknown.length === 0,
+          detail: unknown.length
+            ? `Witnesses not allowed: ${unknown.join(", ")}`
+            : `All ${signers.length} witnesses allowed`,
+        };
+      })
+    );
+  }
+
+  if (policy.allowedSigners) {
+    const allowedSigners = policy.allowedSigners.map((a) => a.toLowerCase());
+    results.push(
+      signerRule("allowedSigners", proof, (signers) => {
+        const unknown = signers.filter((s) => !allowedSigners.includes(s));
+        return {
+          passed: signers.length > 0 && unknown.length === 0,
+          detail: unknown.length
+            ? `Signers not allowed: ${unknown.join(", ")}`
+            : `All ${signers.length} signers allowed`,
+        };
+      })
+    );
+  }
+
+  if (policy.requiredOriginHost !== undefined) {
+    results.push({
+      rule: "requiredOriginHost",
+      passed: context.attested.host === policy.requiredOriginHost,
+      detail: `Attested host is ${context.attested.host} (required ${policy.requiredOriginHost})`,
+    });
+  }
+
+  if (policy.requireTee) {
+    const tee = isTeeProof(proof, policy.teeSigners ?? []);
+    results.push({
+      rule: "requireTee",
+      passed: tee,
+      detail: tee
+        ? "Proof was signed by a TEE attestor"
+        : policy.teeSigners?.length
+          ? "Proof was not signed by a TEE attestor"
+          : "No TEE attestor signers are configured (teeSigners)",
+    });
+  }
+
+  // Duplicated signatures from one witness count once
+  if (policy.minSignatures !== undefined) {
+    const min = policy.minSignatures;
+    results.push(
+      signerRule("minSignatures", proof, (signers) => ({
+        passed: signers.length >= min,
+        detail: `${signers.length} distinct signers (min ${min})`,
+      }))
+    );
+  }
+
+  const failed = results.filter((result) => !result.passed);
+  return {
+    satisfied: failed.length === 0,
+    passed: results.filter((result) => result.passed),
+    failed,
+  };
+}
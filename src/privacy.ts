@@ -0,0 +1,234 @@
+import { createHash, randomBytes } from "crypto";
+import type { Proof } from "@reclaimprotocol/js-sdk";
+import type {
+  ProofOptions,
+  PromptReveal,
+  PromptRevealResult,
+  SerializedProof,
+  VerifiableResult,
+} from "./types.js";
+import { canonicalJson } from "./store.js";
+import { parseClaimParameters } from "./verification.js";
+
+/**
+ * Prefix of the claim context message that carries a prompt commitment
+ */
+export const PROMPT_COMMITMENT_PREFIX = "prompt-commitment:";
+
+/**
+ * A request body with its prompt replaced by secret placeholders
+ */
+export interface PrivatePrompt {
+  /** Request body with `{{prompt_N}}` placeholders, as proven */
+  body: Record<string, unknown>;
+  /** Placeholder values (JSON-escaped), sent as secret parameters */
+  secretParamValues: Record<string, string>;
+  /** Commitment preimage, for the prompt owner */
+  reveal: PromptReveal;
+  /** Salted hash of the prompt */
+  commitment: string;
+}
+
+/**
+ * Replace every prompt text in a system prompt and messages with
+ * `{{prompt_N}}` placeholders, numbered in order of appearance
+ *
+ * Covers string contents, text blocks and string tool results; images
+ * and tool calls stay public.
+ */
+function templatePrompt(system: unknown, messages: unknown[]) {
+  const paramValues: Record<string, string> = {};
+  const hide = (text: string): string => {
+    const name = `prompt_${Object.keys(paramValues).length}`;
+    // The value is spliced into the JSON body, so it must be escaped
+    paramValues[name] = JSON.stringify(text).slice(1, -1);
+    return `{{${name}}}`;
+  };
+  const hideBlocks = (blocks: unknown[]): unknown[] =>
+    blocks.map((block) => {
+      const typed = block as { type?: string; text?: unknown; content?: unknown };
+      if (typed.type === "text" && typeof typed.text === "string") {
+        return { ...typed, text: hide(typed.text) };
+      }
+      if (typed.type === "tool_result" && typeof typed.content === "string") {
+        return { ...typed, content: hide(typed.content) };
+      }
+      if (typed.type === "tool_result" && Array.isArray(typed.content)) {
+        return { ...typed, content: hideBlocks(typed.content) };
+      }
+      return block;
+    });
+  const hideContent = (content: unknown): unknown =>
+    typeof content === "string"
+      ? hide(content)
+      : Array.isArray(content)
+        ? hideBlocks(content)
+        : content;
+
+  return {
+    system: system === undefined ? undefined : hideContent(system),
+    messages: messages.map((message) => ({
+      ...(message as Record<string, unknown>),
+      content: hideContent((message as { content?: unknown }).content),
+    })),
+    paramValues,
+  };
+}
+
+/**
+ * Salted hash committing to a prompt
+ *
+ * @returns Hex SHA-256 of the canonical JSON of salt, system and messages
+ */
+export function computePromptCommitment(reveal: PromptReveal): string {
+  return createHash("sha256")
+    .update(
+      canonicalJson({
+        salt: reveal.salt,
+        system: reveal.system ?? null,
+        messages: reveal.messages,
+      })
+    )
+    .digest("hex");
+}
+
+/**
+ * Turn a Messages API request body into a private-prompt request
+ *
+ * @param body - Request body with `messages` and optional `system`
+ * @returns Placeholder body, secret values, commitment and its preimage
+ */
+export function createPrivatePrompt(body: Record<string, unknown>): PrivatePrompt {
+  const messages = body.messages;
+  if (!Array.isArray(messages)) {
+    throw new Error("Request body has no messages to make private");
+  }
+  const template = templatePrompt(body.system, messages);
+  const reveal: PromptReveal = {
+    salt: randomBytes(32).toString("hex"),
+    messages,
+  };
+  if (body.system !== undefined) {
+    reveal.system = body.system;
+  }
+
+  const privateBody: Record<string, unknown> = { ...body, messages: template.messages };
+  if (template.system !== undefined) {
+    privateBody.system = template.system;
+  }
+  return {
+    body: privateBody,
+    secretParamValues: template.paramValues,
+    reveal,
+    commitment: computePromptCommitment(reveal),
+  };
+}
+
+/**
+ * Proof options that sign a prompt commitment into the claim context
+ *
+ * @throws Error if the options already carry a context
+ */
+export function withPromptCommitment(
+  options: ProofOptions,
+  commitment: string
+): ProofOptions {
+  if (options.context) {
+    throw new Error("'privatePrompt' cannot be combined with a custom proof context");
+  }
+  return {
+    ...options,
+    context: {
+      contextAddress: "0x0",
+      contextMessage: `${PROMPT_COMMITMENT_PREFIX}${commitment}`,
+    },
+  };
+}
+
+function toProof(source: VerifiableResult | SerializedProof | Proof): Proof {
+  return "proofJson" in source
+    ? JSON.parse(source.proofJson)
+    : "claimData" in source
+      ? source
+      : source.proof;
+}
+
+/**
+ * Read the prompt commitment signed into a proof's claim context
+ *
+ * @returns Hex commitment, or undefined if the prompt is public
+ */
+export function getPromptCommitment(
+  source: VerifiableResult | SerializedProof | Proof
+): string | undefined {
+  try {
+    const context = JSON.parse(toProof(source).claimData.context || "{}");
+    const message = context.contextMessage;
+    return typeof message === "string" && message.startsWith(PROMPT_COMMITMENT_PREFIX)
+      ? message.slice(PROMPT_COMMITMENT_PREFIX.length)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check a revealed prompt against a private-prompt proof
+ *
+ * The reveal must hash to the commitment signed into the proof, and must
+ * have the same shape (roles, blocks, placeholders) as the proven request.
+ * The commitment is made by the prompt owner when the proof is created;
+ * witnesses cannot see the secret values, so it binds the owner to one
+ * prompt rather than proving what the API received. Verify the proof
+ * itself separately.
+ *
+ * @param source - Result, serialized proof or raw proof
+ * @param reveal - Preimage from `result.promptReveal`
+ * @returns Whether the reveal matches
+ *
+ * @example
+ * ```typescript
+ * const result = await client.generate({ prompt: "Customer #4411 ...", privatePrompt: true });
+ * // Publish client.serializeResult(result); give result.promptReveal to the auditor
+ *
+ * const { isValid } = verifyPromptReveal(serialized, promptReveal);
+ * ```
+ */
+export function verifyPromptReveal(
+  source: VerifiableResult | SerializedProof | Proof,
+  reveal: PromptReveal
+): PromptRevealResult {
+  let proof: Proof;
+  try {
+    proof = toProof(source);
+  } catch {
+    return { isValid: false, error: "Invalid proof JSON" };
+  }
+
+  const commitment = getPromptCommitment(proof);
+  if (!commitment) {
+    return { isValid: false, error: "Proof has no prompt commitment" };
+  }
+  if (computePromptCommitment(reveal) !== commitment) {
+    return { isValid: false, commitment, error: "Reveal does not match the commitment" };
+  }
+
+  try {
+    const proven = JSON.parse(parseClaimParameters(proof).body ?? "{}");
+    const template = templatePrompt(reveal.system, reveal.messages);
+    if (
+      canonicalJson(template.messages) !== canonicalJson(proven.messages) ||
+      canonicalJson(template.system ?? null) !== canonicalJson(proven.system ?? null)
+    ) {
+      return {
+        isValid: false,
+        commitment,
+        error: "Reveal does not match the shape of the proven request",
+      };
+    }
+  } catch {
+    return { isValid: false, commitment, error: "Proof has no parsable request body" };
+  }
+
+  return { isValid: true, commitment };
+}
@@ -0,0 +1,166 @@
+import type {
+  InferenceProvider,
+  ProviderGenerateOptions,
+  ResponseParser,
+  ResponseRule,
+} from "./types.js";
+import { parseAnthropicResponse } from "./verification.js";
+import { JSON_RESPONSE_RULES } from "./matching.js";
+import { getAnthropicError } from "./errors.js";
+
+/**
+ * Rules proving an Anthropic Messages API response body
+ *
+ * Error bodies are proven as well, and raised as `AnthropicApiError`.
+ */
+export const ANTHROPIC_RESPONSE_RULES: ResponseRule[] = JSON_RESPONSE_RULES;
+
+/**
+ * Rules proving an OpenAI-compatible chat completion response body
+ */
+export const OPENAI_RESPONSE_RULES: ResponseRule[] = [
+  ...JSON_RESPONSE_RULES,
+  { type: "contains", value: '"choices"' },
+];
+
+/**
+ * Build the messages array from a prompt or message list
+ */
+function buildMessages(
+  options: ProviderGenerateOptions
+): { role: "user" | "assistant"; content: string }[] {
+  if (options.messages) {
+    return options.messages;
+  }
+  if (options.prompt) {
+    return [{ role: "user", content: options.prompt }];
+  }
+  throw new Error("Either 'messages' or 'prompt' must be provided");
+}
+
+/**
+ * Anthropic Messages API
+ *
+ * @param baseUrl - API base URL (default: https://api.anthropic.com/v1)
+ */
+export function anthropicProvider(
+  baseUrl = "https://api.anthropic.com/v1"
+): InferenceProvider {
+  return {
+    name: "anthropic",
+    url: `${baseUrl}/messages`,
+    authHeaders: (apiKey) => ({
+      "anthropic-version": "2023-06-01",
+      "x-api-key": apiKey,
+    }),
+    buildBody: (options) => {
+      const body: Record<string, unknown> = {
+        model: options.model,
+        max_tokens: options.maxTokens || 1024,
+        messages: buildMessages(options),
+      };
+      if (options.system) {
+        body.system = options.system;
+      }
+      if (options.temperature !== undefined) {
+        body.temperature = options.temperature;
+      }
+      if (options.stopSequences?.length) {
+        body.stop_sequences = options.stopSequences;
+      }
+      return body;
+    },
+    responseRules: ANTHROPIC_RESPONSE_RULES,
+    parseResponse: parseAnthropicResponse,
+    parseError: getAnthropicError,
+  };
+}
+
+/**
+ * Fields read from an OpenAI-compatible chat completion body
+ */
+interface ChatCompletionBody {
+  id: string;
+  model: string;
+  choices?: { message?: { content?: string | null } }[];
+  [field: string]: unknown;
+}
+
+/**
+ * Parse an OpenAI-compatible chat completion response
+ */
+export const parseOpenAIResponse: ResponseParser = (response) => {
+  const completion = response as ChatCompletionBody;
+  return {
+    text: completion.choices?.[0]?.message?.content ?? "",
+    model: completion.model,
+    id: completion.id,
+  };
+};
+
+/**
+ * Any OpenAI-compatible Chat Completions API (OpenAI, OpenRouter, vLLM, ...)
+ *
+ * @param name - Provider name recorded on results
+ * @param baseUrl - API base URL, without `/chat/completions`
+ *
+ * @example
+ * ```typescript
+ * const vllm = openAICompatibleProvider("vllm", "https://llm.example.com/v1");
+ * ```
+ */
+export function openAICompatibleProvider(
+  name: string,
+  baseUrl: string
+): InferenceProvider {
+  return {
+    name,
+    url: `${baseUrl}/chat/completions`,
+    authHeaders: (apiKey) => ({ Authorization: `Bearer ${apiKey}` }),
+    buildBody: (options) => {
+      const messages: { role: string; content: string }[] = [];
+      if (options.system) {
+        messages.push({ role: "system", content: options.system });
+      }
+      messages.push(...buildMessages(options));
+
+      const body: Record<string, unknown> = {
+        model: options.model,
+        messages,
+      };
+      if (options.maxTokens) {
+        body.max_tokens = options.maxTokens;
+      }
+      if (options.temperature !== undefined) {
+        body.temperature = options.temperature;
+      }
+      if (options.stopSequences?.length) {
+        body.stop = options.stopSequences;
+      }
+      return body;
+    },
+    responseRules: OPENAI_RESPONSE_RULES,
+    parseResponse: parseOpenAIResponse,
+  };
+}
+
+/**
+ * OpenAI Chat Completions API
+ */
+export function openAIProvider(): InferenceProvider {
+  return openAICompatibleProvider("openai", "https://api.openai.com/v1");
+}
+
+/**
+ * OpenRouter Chat Completions API
+ */
+export function openRouterProvider(): InferenceProvider {
+  return openAICompatibleProvider("openrouter", "https://openrouter.ai/api/v1");
+}
+
+/**
+ * Providers known to `VerifiableInference.verifySerializedProof()`
+ */
+export function builtInProviders(): InferenceProvider[] {
+  return [anthropicProvider(), openAIProvider(), openRouterProvider()];
+}
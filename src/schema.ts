@@ -0,0 +1,321 @@
+import type { JsonSchema, JsonSchemaType, SchemaError } from "./types.js";
+
+/**
+ * JSON type of a value, as named in schemas
+ */
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "number";
+  }
+  return typeof value as JsonSchemaType;
+}
+
+/**
+ * Keywords `validateSchema()` understands, plus annotations it may ignore
+ */
+const SUPPORTED_SCHEMA_KEYWORDS = new Set([
+  "type",
+  "enum",
+  "properties",
+  "required",
+  "additionalProperties",
+  "items",
+  "minItems",
+  "maxItems",
+  "minLength",
+  "maxLength",
+  "pattern",
+  "minimum",
+  "maximum",
+  "anyOf",
+  "description",
+  "title",
+  "default",
+  "examples",
+]);
+
+function escapePointer(name: string): string {
+  return name.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/**
+ * Keywords of a schema that `validateSchema()` would not enforce
+ *
+ * A schema using them (e.g. `$ref`, `oneOf`, `const`, `format`) would
+ * silently accept values it is meant to reject.
+ *
+ * @param schema - Schema to check, including nested schemas
+ * @returns JSON Pointers of the unsupported keywords, empty if none
+ */
+export function findUnsupportedKeywords(schema: JsonSchema, path = ""): string[] {
+  const found = Object.keys(schema)
+    .filter((keyword) => !SUPPORTED_SCHEMA_KEYWORDS.has(keyword))
+    .map((keyword) => `${path}/${escapePointer(keyword)}`);
+
+  for (const [name, child] of Object.entries(schema.properties ?? {})) {
+    found.push(...findUnsupportedKeywords(child, `${path}/properties/${escapePointer(name)}`));
+  }
+  if (typeof schema.additionalProperties === "object") {
+    found.push(
+      ...findUnsupportedKeywords(schema.additionalProperties, `${path}/additionalProperties`)
+    );
+  }
+  // Tuple validation (an array of item schemas) is not supported
+  if (Array.isArray(schema.items)) {
+    found.push(`${path}/items`);
+  } else if (schema.items) {
+    found.push(...findUnsupportedKeywords(schema.items, `${path}/items`));
+  }
+  schema.anyOf?.forEach((option, index) => {
+    found.push(...findUnsupportedKeywords(option, `${path}/anyOf/${index}`));
+  });
+  return found;
+}
+
+/**
+ * Validate a value against a JSON Schema subset
+ *
+ * Supports type, enum, properties, required, additionalProperties, items,
+ * minItems/maxItems, minLength/maxLength, pattern, minimum/maximum and
+ * anyOf - enough to describe request bodies and tool inputs. Other
+ * keywords are ignored; check schemas from elsewhere with
+ * `findUnsupportedKeywords()` first.
+ *
+ * @param value - Parsed JSON value
+ * @param schema - Schema to validate against
+ * @param path - JSON Pointer of `value` (used for nested errors)
+ * @returns Every violation found, empty if the value is valid
+ *
+ * @example
+ * ```typescript
+ * validateSchema({ prompt: 42 }, {
+ *   type: "object",
+ *   properties: { prompt: { type: "string" } },
+ * });
+ * // [{ path: "/prompt", message: "must be string" }]
+ * ```
+ */
+export function validateSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path = ""
+): SchemaError[] {
+  const errors: SchemaError[] = [];
+  const actual = typeOf(value);
+
+  if (schema.type) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const matches = allowed.some(
+      (type) => type === actual || (type === "number" && actual === "integer")
+    );
+    if (!matches) {
+      return [{ path, message: `must be ${allowed.join(" or ")}` }];
+    }
+  }
+
+  if (
+    schema.enum &&
+    !schema.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))
+  ) {
+    errors.push({
+      path,
+      message: `must be one of ${schema.enum.map((o) => JSON.stringify(o)).join(", ")}`,
+    });
+  }
+
+  if (schema.anyOf && !schema.anyOf.some((s) => validateSchema(value, s, path).length === 0)) {
+    errors.push({ path, message: "does not match any allowed schema" });
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ path, message: `must have at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push({ path, message: `must have at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push({ path, message: `must match pattern ${schema.pattern}` });
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ path, message: `must have at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push({ path, message: `must have at most ${schema.maxItems} items` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...validateSchema(item, schema.items!, `${path}/${index}`));
+      });
+    }
+  }
+
+  if (actual === "object") {
+    const object = value as Record<string, unknown>;
+    for (const name of schema.required ?? []) {
+      if (!(name in object)) {
+        errors.push({ path, message: `must have property '${name}'` });
+      }
+    }
+    for (const [name, child] of Object.entries(object)) {
+      const childPath = `${path}/${escapePointer(name)}`;
+      const propertySchema = schema.properties?.[name];
+      if (propertySchema) {
+        errors.push(...validateSchema(child, propertySchema, childPath));
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: childPath, message: "is not allowed" });
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(
+          ...validateSchema(child, schema.additionalProperties, childPath)
+        );
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Format schema errors as a single message
+ */
+export function formatSchemaErrors(errors: SchemaError[]): string {
+  return errors
+    .map((error) => `${error.path || "(root)"} ${error.message}`)
+    .join("; ");
+}
+
+const PROOF_OPTIONS_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    useTee: { type: "boolean" },
+    retries: { type: "integer", minimum: 0, maximum: 10 },
+    retryInterval: { type: "integer", minimum: 0 },
+    timeoutMs: { type: "integer", minimum: 1 },
+    geoLocation: { type: "string", pattern: "^[A-Z]{2}$" },
+    context: {
+      type: "object",
+      properties: {
+        contextAddress: { type: "string" },
+        contextMessage: { type: "string" },
+      },
+      required: ["contextAddress", "contextMessage"],
+      additionalProperties: false,
+    },
+  },
+  additionalProperties: false,
+};
+
+const CONTENT_BLOCK_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    type: { enum: ["text", "image", "tool_use", "tool_result"] },
+  },
+  required: ["type"],
+};
+
+const PROVEN_REQUEST_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    url: { type: "string" },
+    method: { type: "string" },
+    body: { type: "string" },
+  },
+  required: ["url", "method", "body"],
+  additionalProperties: false,
+};
+
+/**
+ * Schema for `ClaudeGenerateOptions` request bodies
+ */
+export const GENERATE_OPTIONS_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    model: { type: "string", minLength: 1 },
+    prompt: { type: "string", minLength: 1 },
+    messages: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        properties: {
+          role: { enum: ["user", "assistant", "system"] },
+          content: {
+            anyOf: [
+              { type: "string" },
+              { type: "array", items: CONTENT_BLOCK_SCHEMA },
+            ],
+          },
+        },
+        required: ["role", "content"],
+        additionalProperties: false,
+      },
+    },
+    system: { type: "string" },
+    maxTokens: { type: "integer", minimum: 1 },
+    temperature: { type: "number", minimum: 0, maximum: 1 },
+    stopSequences: { type: "array", items: { type: "string" } },
+    tools: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string", minLength: 1 },
+          description: { type: "string" },
+          input_schema: { type: "object" },
+        },
+        required: ["name", "input_schema"],
+        additionalProperties: false,
+      },
+    },
+    toolChoice: {
+      type: "object",
+      properties: {
+        type: { enum: ["auto", "any", "tool"] },
+        name: { type: "string" },
+        disable_parallel_tool_use: { type: "boolean" },
+      },
+      required: ["type"],
+      additionalProperties: false,
+    },
+    proofOptions: PROOF_OPTIONS_SCHEMA,
+    privatePrompt: { type: "boolean" },
+    disclose: { type: "array", minItems: 1, items: { type: "string", minLength: 1 } },
+  },
+  anyOf: [{ required: ["prompt"] }, { required: ["messages"] }],
+  additionalProperties: false,
+};
+
+/**
+ * Schema for `SerializedClaudeProof` request bodies
+ */
+export const SERIALIZED_PROOF_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    proofJson: { type: "string", minLength: 2 },
+    text: { type: "string" },
+    timestamp: { type: "number" },
+    model: { type: "string" },
+    messageId: { type: "string" },
+    request: PROVEN_REQUEST_SCHEMA,
+    provider: { enum: ["reclaim"] },
+    proofMode: { enum: ["zk", "tee"] },
+    inferenceProvider: { type: "string" },
+    origin: { type: "string" },
+  },
+  required: ["proofJson", "text", "timestamp", "model", "provider"],
+  additionalProperties: false,
+};
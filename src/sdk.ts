@@ -0,0 +1,154 @@
+import type Anthropic from "@anthropic-ai/sdk";
+import { VerifiableClaude } from "./index.js";
+import type {
+  ProofBackend,
+  ProofOptions,
+  SerializedClaudeProof,
+  VerificationResult,
+  VerifyOptions,
+} from "./types.js";
+import { parseProvenResponse } from "./verification.js";
+
+/**
+ * Options for the SDK-compatible client
+ *
+ * Mirrors the Anthropic SDK's client options, plus proof settings.
+ * Credentials default to the same environment variables.
+ */
+export interface VerifiableAnthropicOptions {
+  /** Anthropic API key (default: process.env.ANTHROPIC_API_KEY) */
+  apiKey?: string;
+  /** API base URL without `/v1` (default: https://api.anthropic.com) */
+  baseURL?: string;
+  /** Reclaim Protocol App ID (default: process.env.RECLAIM_APP_ID) */
+  reclaimAppId?: string;
+  /** Reclaim Protocol App Secret (default: process.env.RECLAIM_APP_SECRET) */
+  reclaimAppSecret?: string;
+  /** Optional: Proof backend (default: Reclaim) */
+  backend?: ProofBackend;
+  /** Proof generation settings (TEE mode, retries, timeouts) */
+  proofOptions?: ProofOptions;
+}
+
+/**
+ * Standard Anthropic SDK Message with its proof attached
+ */
+export type VerifiableMessage = Anthropic.Message & {
+  /** Serialized proof of this message, verifiable by third parties */
+  proof: SerializedClaudeProof;
+};
+
+/**
+ * VerifiableAnthropic - Drop-in replacement for the Anthropic SDK client
+ *
+ * Exposes `messages.create()` with the SDK's parameter and response
+ * types. Every response is the standard Message object, sent and proven
+ * through zkTLS, with a `proof` property alongside.
+ *
+ * @example
+ * ```typescript
+ * // Before: import Anthropic from "@anthropic-ai/sdk";
+ * import { VerifiableAnthropic as Anthropic } from "zkproof-ai";
+ *
+ * const anthropic = new Anthropic();
+ * const message = await anthropic.messages.create({
+ *   model: "claude-3-5-sonnet-20241022",
+ *   max_tokens: 1024,
+ *   messages: [{ role: "user", content: "Hello, Claude" }],
+ * });
+ *
+ * console.log(message.content);
+ * await VerifiableAnthropic.verify(message); // isValid: true
+ * ```
+ */
+export class VerifiableAnthropic {
+  private client: VerifiableClaude;
+
+  /** Messages API, compatible with `anthropic.messages` */
+  messages: {
+    create(
+      params: Anthropic.MessageCreateParamsNonStreaming
+    ): Promise<VerifiableMessage>;
+  };
+
+  constructor(options: VerifiableAnthropicOptions = {}) {
+    const apiKey = options.apiKey ?? process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      throw new Error("Missing API key: pass 'apiKey' or set ANTHROPIC_API_KEY");
+    }
+
+    this.client = new VerifiableClaude({
+      apiKey,
+      endpoint: options.baseURL
+        ? `${options.baseURL.replace(/\/+$/, "")}/v1`
+        : undefined,
+      reclaimAppId: options.reclaimAppId ?? process.env.RECLAIM_APP_ID,
+      reclaimAppSecret:
+        options.reclaimAppSecret ?? process.env.RECLAIM_APP_SECRET,
+      backend: options.backend,
+      proofOptions: options.proofOptions,
+    });
+
+    this.messages = {
+      create: (params) => this.createMessage(params),
+    };
+  }
+
+  /**
+   * Verify a message returned by `messages.create()`
+   *
+   * @param message - The message with its attached proof
+   * @param options - Verification options (host allowlist, policy, backend)
+   * @returns Verification result
+   */
+  static async verify(
+    message: VerifiableMessage,
+    options?: VerifyOptions
+  ): Promise<VerificationResult> {
+    const { proof, ...body } = message;
+    const verification = await VerifiableClaude.verifySerializedProof(
+      proof,
+      options
+    );
+    if (!verification.isValid) {
+      return verification;
+    }
+
+    // The message itself must be exactly the proven response
+    const proven = parseProvenResponse(JSON.parse(proof.proofJson));
+    if (JSON.stringify(body) !== JSON.stringify(proven)) {
+      return {
+        ...verification,
+        isValid: false,
+        mismatches: {
+          content: {
+            expected: JSON.stringify(body),
+            actual: JSON.stringify(proven),
+          },
+        },
+        verifiedEndpoint: undefined,
+        error: "Message does not match its proof",
+        failure: {
+          code: "content_mismatch",
+          message: "Message does not match its proof",
+          fields: ["content"],
+        },
+      };
+    }
+    return verification;
+  }
+
+  private async createMessage(
+    params: Anthropic.MessageCreateParamsNonStreaming
+  ): Promise<VerifiableMessage> {
+    if ((params as { stream?: boolean }).stream) {
+      throw new Error("Streaming is not supported by messages.create()");
+    }
+
+    const result = await this.client.generateFromBody({ ...params });
+    return {
+      ...(result.rawResponse as Anthropic.Message),
+      proof: this.client.serializeResult(result),
+    };
+  }
+}
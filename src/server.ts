@@ -0,0 +1,519 @@
+import http from "http";
+import type {
+  ClaudeGenerateOptions,
+  GenerationErrorCode,
+  JsonSchema,
+  ProofQuery,
+  ProofStore,
+  SchemaError,
+  SerializedClaudeProof,
+  VerifiableClaudeResult,
+  VerifyOptions,
+} from "./types.js";
+import { DEFAULT_MAX_TOKENS, DEFAULT_MODEL, VerifiableClaude } from "./index.js";
+import {
+  GENERATE_OPTIONS_SCHEMA,
+  SERIALIZED_PROOF_SCHEMA,
+  formatSchemaErrors,
+  validateSchema,
+} from "./schema.js";
+import {
+  MemoryProofStore,
+  getProofId,
+  getVerifyOptionsHash,
+} from "./store.js";
+import { VERIFIER_VERSION } from "./verification.js";
+import {
+  AnthropicApiError,
+  VerifiableGenerationError,
+  toGenerationError,
+} from "./errors.js";
+
+/**
+ * Error types returned in API error envelopes
+ */
+export type ApiErrorType =
+  | "invalid_request"
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "method_not_allowed"
+  | "payload_too_large"
+  | "unsupported_media_type"
+  | "generation_failed"
+  | "internal_error";
+
+/**
+ * Body of every non-2xx API response
+ */
+export interface ApiErrorEnvelope {
+  error: {
+    /** Machine-readable error type */
+    type: ApiErrorType;
+    /** Human-readable description */
+    message: string;
+    /** Schema violations, for `invalid_request` errors */
+    details?: SchemaError[];
+    /** Generation error code, for failed generations */
+    code?: GenerationErrorCode;
+    /** Whether the same request could succeed if sent again, for failed generations */
+    retryable?: boolean;
+    /** Anthropic request id, for errors returned by the Anthropic API */
+    requestId?: string;
+  };
+}
+
+/**
+ * Options for the proof API server
+ */
+export interface ProofServerOptions {
+  /** Client used to generate and verify proofs */
+  client: VerifiableClaude;
+  /** Options applied to every `/v1/verify` call (allowlist, policy, backend) */
+  verifyOptions?: VerifyOptions;
+  /** Where generated proofs are kept (default: in memory) */
+  store?: ProofStore;
+  /** Maximum request body size in bytes (default: 1 MiB) */
+  maxBodyBytes?: number;
+  /**
+   * Decide whether a request may call `/v1/generate`, e.g. by checking an
+   * API key header. Generation spends the operator's Anthropic and Reclaim
+   * credits, so without this hook `/v1/generate` is refused.
+   */
+  authorize?: (req: http.IncomingMessage) => boolean | Promise<boolean>;
+  /** Models `/v1/generate` may use (default: any) */
+  allowedModels?: string[];
+  /** Largest `maxTokens` `/v1/generate` accepts (default: no cap) */
+  maxTokens?: number;
+  /** Accept `proofOptions` in `/v1/generate` bodies (default: false) */
+  allowProofOptions?: boolean;
+}
+
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Error carrying the HTTP status and envelope type of a failed request
+ */
+class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly type: ApiErrorType,
+    message: string,
+    readonly details?: SchemaError[],
+    readonly generation?: VerifiableGenerationError
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * HTTP status for each generation error code that is not a plain 502
+ */
+const GENERATION_ERROR_STATUS: Partial<Record<GenerationErrorCode, number>> = {
+  invalid_options: 400,
+  api_rate_limited: 429,
+  api_overloaded: 503,
+  witness_unavailable: 503,
+  proof_timeout: 503,
+  audit_log_failed: 500,
+};
+
+/**
+ * The API error for a failed generation
+ */
+function toGenerationApiError(caught: unknown): ApiError {
+  const error = toGenerationError(caught);
+  return new ApiError(
+    GENERATION_ERROR_STATUS[error.code] ?? 502,
+    error.code === "invalid_options" ? "invalid_request" : "generation_failed",
+    error.message,
+    undefined,
+    error
+  );
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res: http.ServerResponse, error: ApiError): void {
+  const envelope: ApiErrorEnvelope = {
+    error: { type: error.type, message: error.message },
+  };
+  if (error.details) {
+    envelope.error.details = error.details;
+  }
+  if (error.generation) {
+    envelope.error.code = error.generation.code;
+    envelope.error.retryable = error.generation.retryable;
+    if (error.generation instanceof AnthropicApiError && error.generation.requestId) {
+      envelope.error.requestId = error.generation.requestId;
+    }
+  }
+  sendJson(res, error.status, envelope);
+}
+
+/**
+ * Collect a request body, stopping as soon as it exceeds `maxBytes`
+ *
+ * The rest of an oversized body is left unread; the handler closes the
+ * connection once the 413 is sent.
+ */
+function readBody(req: http.IncomingMessage, maxBytes: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const cleanup = () => {
+      req.off("data", onData);
+      req.off("end", onEnd);
+      req.off("error", onError);
+    };
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        cleanup();
+        req.pause();
+        reject(
+          new ApiError(413, "payload_too_large", `Request body exceeds ${maxBytes} bytes`)
+        );
+        return;
+      }
+      chunks.push(chunk);
+    };
+    const onEnd = () => {
+      cleanup();
+      resolve(Buffer.concat(chunks));
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    req.on("data", onData);
+    req.on("end", onEnd);
+    req.on("error", onError);
+  });
+}
+
+/**
+ * Read a JSON body, enforcing the content type and size limit
+ */
+async function readJsonBody(
+  req: http.IncomingMessage,
+  maxBytes: number
+): Promise<unknown> {
+  const contentType = req.headers["content-type"] ?? "";
+  if (!contentType.startsWith("application/json")) {
+    throw new ApiError(
+      415,
+      "unsupported_media_type",
+      "Content-Type must be application/json"
+    );
+  }
+  if (Number(req.headers["content-length"] ?? 0) > maxBytes) {
+    throw new ApiError(
+      413,
+      "payload_too_large",
+      `Request body exceeds ${maxBytes} bytes`
+    );
+  }
+
+  const body = await readBody(req, maxBytes);
+  try {
+    return JSON.parse(body.toString("utf-8"));
+  } catch {
+    throw new ApiError(400, "invalid_request", "Request body is not valid JSON");
+  }
+}
+
+/**
+ * Read proof query filters from URL search parameters
+ */
+function parseProofQuery(params: URLSearchParams): ProofQuery {
+  const query: ProofQuery = {};
+  const number = (name: string): number | undefined => {
+    const value = params.get(name);
+    if (value === null) {
+      return undefined;
+    }
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed)) {
+      throw new ApiError(400, "invalid_request", `'${name}' must be a number`);
+    }
+    return parsed;
+  };
+
+  const model = params.get("model");
+  if (model !== null) query.model = model;
+  const promptHash = params.get("promptHash");
+  if (promptHash !== null) query.promptHash = promptHash;
+  const status = params.get("status");
+  if (status !== null) {
+    if (status !== "valid" && status !== "invalid" && status !== "unverified") {
+      throw new ApiError(
+        400,
+        "invalid_request",
+        "'status' must be one of valid, invalid, unverified"
+      );
+    }
+    query.status = status;
+  }
+  query.from = number("from");
+  query.to = number("to");
+  query.limit = number("limit");
+  return query;
+}
+
+/**
+ * Parse and validate a JSON body against a schema
+ */
+async function readValidBody<T>(
+  req: http.IncomingMessage,
+  schema: JsonSchema,
+  maxBytes: number
+): Promise<T> {
+  const body = await readJsonBody(req, maxBytes);
+  const errors = validateSchema(body, schema);
+  if (errors.length > 0) {
+    throw new ApiError(
+      400,
+      "invalid_request",
+      `Invalid request body: ${formatSchemaErrors(errors)}`,
+      errors
+    );
+  }
+  return body as T;
+}
+
+/**
+ * Check that a generation request is authorized and within the operator's limits
+ */
+async function checkGenerateAllowed(
+  req: http.IncomingMessage,
+  options: ProofServerOptions
+): Promise<void> {
+  if (!options.authorize) {
+    throw new ApiError(403, "forbidden", "Generation is not enabled on this server");
+  }
+  if (!(await options.authorize(req))) {
+    throw new ApiError(401, "unauthorized", "Not authorized to generate proofs");
+  }
+}
+
+/**
+ * Reject generation options outside the operator's limits
+ */
+function checkGenerateLimits(
+  generateOptions: ClaudeGenerateOptions,
+  options: ProofServerOptions
+): void {
+  const { allowedModels, maxTokens, allowProofOptions } = options;
+  if (
+    allowedModels &&
+    !allowedModels.includes(generateOptions.model ?? DEFAULT_MODEL)
+  ) {
+    throw new ApiError(
+      403,
+      "forbidden",
+      `Model '${generateOptions.model ?? DEFAULT_MODEL}' is not allowed`
+    );
+  }
+  if (
+    maxTokens !== undefined &&
+    (generateOptions.maxTokens ?? DEFAULT_MAX_TOKENS) > maxTokens
+  ) {
+    throw new ApiError(403, "forbidden", `'maxTokens' must be at most ${maxTokens}`);
+  }
+  if (generateOptions.proofOptions && !allowProofOptions) {
+    throw new ApiError(403, "forbidden", "'proofOptions' are set by the server");
+  }
+}
+
+/**
+ * Create a request handler for the proof REST API
+ *
+ * Routes:
+ * - `POST /v1/generate` - body: `ClaudeGenerateOptions`; returns the result
+ *   with its serialized proof, stored under its content hash `id`. Needs
+ *   the `authorize` hook, and is held to `allowedModels`, `maxTokens` and
+ *   `allowProofOptions`
+ * - `POST /v1/verify` - body: `SerializedClaudeProof`; returns the
+ *   `VerificationResult`, cached in the store if the proof is stored and
+ *   `verifyOptions` can be cached (see `getVerifyOptionsHash()`)
+ * - `GET /v1/proofs?model=&from=&to=&promptHash=&status=&limit=` - queries
+ *   stored proofs
+ * - `GET /v1/proofs/:id` - returns a `StoredProof`
+ *
+ * Successful responses are `{ data }`; failures are `{ error: { type,
+ * message, details? } }` with a matching status code. The handler can be
+ * mounted in any Node HTTP server or framework.
+ *
+ * @example
+ * ```typescript
+ * const handler = createProofApiHandler({
+ *   client,
+ *   authorize: (req) => req.headers.authorization === `Bearer ${token}`,
+ *   maxTokens: 1024,
+ * });
+ * http.createServer(handler).listen(3000);
+ * ```
+ */
+export function createProofApiHandler(
+  options: ProofServerOptions
+): (req: http.IncomingMessage, res: http.ServerResponse) => Promise<void> {
+  const { client, verifyOptions } = options;
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  const store = options.store ?? new MemoryProofStore();
+  const optionsHash = getVerifyOptionsHash(verifyOptions);
+
+  const routes: {
+    method: string;
+    pattern: RegExp;
+    handle: (
+      req: http.IncomingMessage,
+      params: string[],
+      url: URL
+    ) => Promise<unknown>;
+  }[] = [
+    {
+      method: "POST",
+      pattern: /^\/v1\/generate$/,
+      handle: async (req) => {
+        await checkGenerateAllowed(req, options);
+        const generateOptions = await readValidBody<ClaudeGenerateOptions>(
+          req,
+          GENERATE_OPTIONS_SCHEMA,
+          maxBodyBytes
+        );
+        checkGenerateLimits(generateOptions, options);
+
+        let result: VerifiableClaudeResult;
+        try {
+          result = await client.generate(generateOptions);
+        } catch (error) {
+          throw toGenerationApiError(error);
+        }
+
+        const proof = client.serializeResult(result);
+        const { id } = await store.put(proof);
+        return {
+          id,
+          text: result.text,
+          content: result.content,
+          stopReason: result.stopReason,
+          usage: result.usage,
+          proof,
+          promptReveal: result.promptReveal,
+        };
+      },
+    },
+    {
+      method: "POST",
+      pattern: /^\/v1\/verify$/,
+      handle: async (req) => {
+        const serialized = await readValidBody<SerializedClaudeProof>(
+          req,
+          SERIALIZED_PROOF_SCHEMA,
+          maxBodyBytes
+        );
+        const result = await VerifiableClaude.verifySerializedProof(
+          serialized,
+          verifyOptions
+        );
+
+        const id = getProofId(serialized);
+        if (optionsHash !== undefined && (await store.get(id))) {
+          await store.recordVerification(id, {
+            isValid: result.isValid,
+            error: result.error,
+            verifiedAt: Date.now(),
+            verifierVersion: VERIFIER_VERSION,
+            optionsHash,
+          });
+        }
+        return result;
+      },
+    },
+    {
+      method: "GET",
+      pattern: /^\/v1\/proofs$/,
+      handle: async (_req, _params, url) =>
+        store.query(parseProofQuery(url.searchParams)),
+    },
+    {
+      method: "GET",
+      pattern: /^\/v1\/proofs\/([^/]+)$/,
+      handle: async (_req, [id]) => {
+        let decoded: string;
+        try {
+          decoded = decodeURIComponent(id);
+        } catch {
+          throw new ApiError(400, "invalid_request", `Invalid proof id '${id}'`);
+        }
+        const record = await store.get(decoded);
+        if (!record) {
+          throw new ApiError(404, "not_found", `Proof '${id}' not found`);
+        }
+        return record;
+      },
+    },
+  ];
+
+  return async (req, res) => {
+    try {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      const { pathname } = url;
+      const matching = routes
+        .map((route) => ({ route, match: route.pattern.exec(pathname) }))
+        .filter((candidate) => candidate.match);
+
+      if (matching.length === 0) {
+        throw new ApiError(404, "not_found", `No route for ${pathname}`);
+      }
+      const found = matching.find(({ route }) => route.method === req.method);
+      if (!found) {
+        res.setHeader(
+          "Allow",
+          matching.map(({ route }) => route.method).join(", ")
+        );
+        throw new ApiError(
+          405,
+          "method_not_allowed",
+          `${req.method} is not allowed on ${pathname}`
+        );
+      }
+
+      const data = await found.route.handle(req, found.match!.slice(1), url);
+      sendJson(res, 200, { data });
+    } catch (error) {
+      // The rest of an oversized body is never read: close the connection
+      if (error instanceof ApiError && error.status === 413) {
+        res.setHeader("Connection", "close");
+        res.on("finish", () => req.destroy());
+      }
+      sendError(
+        res,
+        error instanceof ApiError
+          ? error
+          : new ApiError(
+              500,
+              "internal_error",
+              error instanceof Error ? error.message : "Internal error"
+            )
+      );
+    }
+  };
+}
+
+/**
+ * Create an HTTP server exposing the proof REST API
+ *
+ * @example
+ * ```typescript
+ * const client = createVerifiableClaude({ apiKey, reclaimAppId, reclaimAppSecret });
+ * createProofServer({ client, authorize: checkApiKey }).listen(3000);
+ * ```
+ */
+export function createProofServer(options: ProofServerOptions): http.Server {
+  return http.createServer(createProofApiHandler(options));
+}
@@ -0,0 +1,499 @@
+import { createHash } from "crypto";
+import { appendFile, readFile } from "fs/promises";
+import type {
+  CachedVerification,
+  ProofQuery,
+  ProofStore,
+  ProviderVerifyOptions,
+  SerializedProof,
+  StoredProof,
+} from "./types.js";
+import { VerifiableInference } from "./inference.js";
+import { VERIFIER_VERSION } from "./verification.js";
+
+/**
+ * Serialize a JSON value with object keys sorted at every level
+ *
+ * Two values that are equal as JSON serialize to the same string, so the
+ * output can be hashed. `undefined` properties are dropped, as with
+ * `JSON.stringify`.
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item ?? null)).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`
+      );
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function sha256(data: string): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * Content-addressed id of a serialized proof
+ *
+ * @returns Hex SHA-256 of the proof's canonical JSON
+ */
+export function getProofId(proof: SerializedProof): string {
+  return sha256(canonicalJson(proof));
+}
+
+/**
+ * Hash of the prompt in a proven request (system prompt + messages)
+ *
+ * Lets auditors find every stored answer to a given prompt without
+ * keeping the prompt itself in an index.
+ *
+ * @returns Hex SHA-256, or undefined if no parsable request was recorded
+ */
+export function getPromptHash(proof: SerializedProof): string | undefined {
+  if (!proof.request) {
+    return undefined;
+  }
+  try {
+    const body = JSON.parse(proof.request.body);
+    return sha256(
+      canonicalJson({ system: body.system ?? null, messages: body.messages ?? null })
+    );
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Hash of the verify options an outcome depends on, for caching it
+ *
+ * Covers the host allowlist, the policy and `allowManualVerify`.
+ * Outcomes that depend on code or on the clock cannot be cached: a custom
+ * `backend` or `providers`, a fixed `now`, or a `maxAgeSeconds` policy.
+ *
+ * @returns Hex SHA-256, or undefined if the outcome must not be cached
+ */
+export function getVerifyOptionsHash(
+  options: ProviderVerifyOptions = {}
+): string | undefined {
+  if (
+    options.backend ||
+    options.providers ||
+    options.now !== undefined ||
+    options.policy?.maxAgeSeconds !== undefined
+  ) {
+    return undefined;
+  }
+  return sha256(
+    canonicalJson({
+      allowedHosts: options.allowedHosts ?? null,
+      policy: options.policy ?? null,
+      allowManualVerify: options.allowManualVerify ?? false,
+    })
+  );
+}
+
+function createRecord(proof: SerializedProof): StoredProof {
+  return {
+    id: getProofId(proof),
+    proof,
+    promptHash: getPromptHash(proof),
+    storedAt: Date.now(),
+  };
+}
+
+function matchesQuery(record: StoredProof, query: ProofQuery): boolean {
+  const { proof, verification } = record;
+  if (query.model !== undefined && proof.model !== query.model) return false;
+  if (query.from !== undefined && proof.timestamp < query.from) return false;
+  if (query.to !== undefined && proof.timestamp > query.to) return false;
+  if (query.promptHash !== undefined && record.promptHash !== query.promptHash) {
+    return false;
+  }
+  if (query.status !== undefined) {
+    const status = !verification
+      ? "unverified"
+      : verification.isValid
+        ? "valid"
+        : "invalid";
+    if (status !== query.status) return false;
+  }
+  return true;
+}
+
+function runQuery(records: Iterable<StoredProof>, query: ProofQuery): StoredProof[] {
+  const matching = [...records]
+    .filter((record) => matchesQuery(record, query))
+    .sort((a, b) => b.proof.timestamp - a.proof.timestamp);
+  return query.limit !== undefined ? matching.slice(0, query.limit) : matching;
+}
+
+/**
+ * MemoryProofStore - Proof store kept in process memory
+ *
+ * Useful for tests and short-lived servers; everything is lost on exit.
+ */
+export class MemoryProofStore implements ProofStore {
+  private records = new Map<string, StoredProof>();
+
+  async put(proof: SerializedProof): Promise<StoredProof> {
+    const record = createRecord(proof);
+    const existing = this.records.get(record.id);
+    if (existing) {
+      return existing;
+    }
+    this.records.set(record.id, record);
+    return record;
+  }
+
+  async get(id: string): Promise<StoredProof | undefined> {
+    return this.records.get(id);
+  }
+
+  async query(query: ProofQuery = {}): Promise<StoredProof[]> {
+    return runQuery(this.records.values(), query);
+  }
+
+  async recordVerification(
+    id: string,
+    verification: CachedVerification
+  ): Promise<void> {
+    const record = this.records.get(id);
+    if (!record) {
+      throw new Error(`Proof '${id}' not found`);
+    }
+    record.verification = verification;
+  }
+}
+
+/**
+ * One line of a JSONL proof store
+ */
+type JsonlEntry =
+  | { type: "proof"; record: StoredProof }
+  | { type: "verification"; id: string; verification: CachedVerification };
+
+/**
+ * JsonlProofStore - Append-only proof store in a JSON Lines file
+ *
+ * Each stored proof and each verification outcome is appended as one
+ * line, so the file doubles as a history and is safe to tail, ship or
+ * grep. The file is read once, on first access, and indexed in memory.
+ *
+ * @example
+ * ```typescript
+ * const store = new JsonlProofStore("./proofs.jsonl");
+ * const { id } = await store.put(client.serializeResult(result));
+ * const answers = await store.query({ model: "claude-3-5-sonnet-20241022" });
+ * ```
+ */
+export class JsonlProofStore implements ProofStore {
+  private records?: Promise<Map<string, StoredProof>>;
+
+  constructor(private readonly filePath: string) {}
+
+  async put(proof: SerializedProof): Promise<StoredProof> {
+    const records = await this.load();
+    const record = createRecord(proof);
+    const existing = records.get(record.id);
+    if (existing) {
+      return existing;
+    }
+    records.set(record.id, record);
+    await this.append({ type: "proof", record });
+    return record;
+  }
+
+  async get(id: string): Promise<StoredProof | undefined> {
+    return (await this.load()).get(id);
+  }
+
+  async query(query: ProofQuery = {}): Promise<StoredProof[]> {
+    return runQuery((await this.load()).values(), query);
+  }
+
+  async recordVerification(
+    id: string,
+    verification: CachedVerification
+  ): Promise<void> {
+    const record = (await this.load()).get(id);
+    if (!record) {
+      throw new Error(`Proof '${id}' not found`);
+    }
+    record.verification = verification;
+    await this.append({ type: "verification", id, verification });
+  }
+
+  private load(): Promise<Map<string, StoredProof>> {
+    this.records ??= this.readFile();
+    return this.records;
+  }
+
+  private async readFile(): Promise<Map<string, StoredProof>> {
+    const records = new Map<string, StoredProof>();
+    let contents: string;
+    try {
+      contents = await readFile(this.filePath, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return records;
+      }
+      throw error;
+    }
+
+    contents.split("\n").forEach((line, index) => {
+      if (!line.trim()) {
+        return;
+      }
+      let entry: JsonlEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        throw new Error(`${this.filePath}:${index + 1}: invalid JSON`);
+      }
+      if (entry.type === "proof") {
+        records.set(entry.record.id, entry.record);
+      } else if (entry.type === "verification") {
+        const record = records.get(entry.id);
+        if (record) {
+          record.verification = entry.verification;
+        }
+      }
+    });
+    return records;
+  }
+
+  private async append(entry: JsonlEntry): Promise<void> {
+    await appendFile(this.filePath, JSON.stringify(entry) + "\n", "utf-8");
+  }
+}
+
+/**
+ * Minimal synchronous SQLite connection
+ *
+ * Matches both `better-sqlite3` databases and `node:sqlite`'s
+ * `DatabaseSync`, so neither is a dependency of this package.
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    run(...params: unknown[]): unknown;
+    get(...params: unknown[]): unknown;
+    all(...params: unknown[]): unknown[];
+  };
+}
+
+/**
+ * Row of the `proofs` table
+ */
+interface ProofRow {
+  id: string;
+  proof_json: string;
+  prompt_hash: string | null;
+  stored_at: number;
+  verification_json: string | null;
+}
+
+/**
+ * SqliteProofStore - Proof store in an SQLite table
+ *
+ * Model, timestamp, prompt hash and verification status are indexed
+ * columns, so queries stay fast on large archives.
+ *
+ * @example
+ * ```typescript
+ * import Database from "better-sqlite3";
+ *
+ * const store = new SqliteProofStore(new Database("proofs.db"));
+ * const failed = await store.query({ status: "invalid" });
+ * ```
+ */
+export class SqliteProofStore implements ProofStore {
+  constructor(
+    private readonly db: SqliteDatabase,
+    private readonly table = "proofs"
+  ) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+      throw new Error(`Invalid table name '${table}'`);
+    }
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS ${table} (
+        id TEXT PRIMARY KEY,
+        model TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        prompt_hash TEXT,
+        stored_at INTEGER NOT NULL,
+        proof_json TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'unverified',
+        verification_json TEXT
+      );
+      CREATE INDEX IF NOT EXISTS ${table}_model ON ${table} (model, timestamp);
+      CREATE INDEX IF NOT EXISTS ${table}_timestamp ON ${table} (timestamp);
+      CREATE INDEX IF NOT EXISTS ${table}_prompt_hash ON ${table} (prompt_hash);
+      CREATE INDEX IF NOT EXISTS ${table}_status ON ${table} (status);
+    `);
+  }
+
+  async put(proof: SerializedProof): Promise<StoredProof> {
+    const record = createRecord(proof);
+    this.db
+      .prepare(
+        `INSERT OR IGNORE INTO ${this.table}
+          (id, model, timestamp, prompt_hash, stored_at, proof_json)
+          VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        record.id,
+        proof.model,
+        proof.timestamp,
+        record.promptHash ?? null,
+        record.storedAt,
+        JSON.stringify(proof)
+      );
+    return (await this.get(record.id))!;
+  }
+
+  async get(id: string): Promise<StoredProof | undefined> {
+    const row = this.db
+      .prepare(`SELECT * FROM ${this.table} WHERE id = ?`)
+      .get(id) as ProofRow | undefined;
+    return row ? this.fromRow(row) : undefined;
+  }
+
+  async query(query: ProofQuery = {}): Promise<StoredProof[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (query.model !== undefined) {
+      conditions.push("model = ?");
+      params.push(query.model);
+    }
+    if (query.from !== undefined) {
+      conditions.push("timestamp >= ?");
+      params.push(query.from);
+    }
+    if (query.to !== undefined) {
+      conditions.push("timestamp <= ?");
+      params.push(query.to);
+    }
+    if (query.promptHash !== undefined) {
+      conditions.push("prompt_hash = ?");
+      params.push(query.promptHash);
+    }
+    if (query.status !== undefined) {
+      conditions.push("status = ?");
+      params.push(query.status);
+    }
+
+    let sql = `SELECT * FROM ${this.table}`;
+    if (conditions.length > 0) {
+      sql += ` WHERE ${conditions.join(" AND ")}`;
+    }
+    sql += " ORDER BY timestamp DESC";
+    if (query.limit !== undefined) {
+      sql += " LIMIT ?";
+      params.push(query.limit);
+    }
+
+    const rows = this.db.prepare(sql).all(...params) as ProofRow[];
+    return rows.map((row) => this.fromRow(row));
+  }
+
+  async recordVerification(
+    id: string,
+    verification: CachedVerification
+  ): Promise<void> {
+    if (!(await this.get(id))) {
+      throw new Error(`Proof '${id}' not found`);
+    }
+    this.db
+      .prepare(
+        `UPDATE ${this.table} SET status = ?, verification_json = ? WHERE id = ?`
+      )
+      .run(
+        verification.isValid ? "valid" : "invalid",
+        JSON.stringify(verification),
+        id
+      );
+  }
+
+  private fromRow(row: ProofRow): StoredProof {
+    const record: StoredProof = {
+      id: row.id,
+      proof: JSON.parse(row.proof_json),
+      storedAt: Number(row.stored_at),
+    };
+    if (row.prompt_hash !== null) {
+      record.promptHash = row.prompt_hash;
+    }
+    if (row.verification_json !== null) {
+      record.verification = JSON.parse(row.verification_json);
+    }
+    return record;
+  }
+}
+
+/**
+ * Options for `verifyStoredProof()`
+ */
+export interface StoredVerifyOptions extends ProviderVerifyOptions {
+  /** Re-verify even if a result from the current verifier version is cached */
+  force?: boolean;
+}
+
+/**
+ * Verify a stored proof, caching the outcome in the store
+ *
+ * A cached outcome is reused only if it was produced by the current
+ * VERIFIER_VERSION with the same verify options; otherwise the proof is
+ * verified again and the new outcome is recorded. Outcomes that cannot be
+ * cached (see `getVerifyOptionsHash()`) are neither read nor recorded.
+ *
+ * @param store - Store holding the proof
+ * @param id - Proof id
+ * @param options - Verification options, plus `force` to skip the cache
+ * @returns The cached or fresh verification outcome
+ */
+export async function verifyStoredProof(
+  store: ProofStore,
+  id: string,
+  options: StoredVerifyOptions = {}
+): Promise<CachedVerification> {
+  const { force, ...verifyOptions } = options;
+  const record = await store.get(id);
+  if (!record) {
+    throw new Error(`Proof '${id}' not found`);
+  }
+  const optionsHash = getVerifyOptionsHash(verifyOptions);
+  if (
+    !force &&
+    optionsHash !== undefined &&
+    record.verification?.verifierVersion === VERIFIER_VERSION &&
+    record.verification.optionsHash === optionsHash
+  ) {
+    return record.verification;
+  }
+
+  const result = await VerifiableInference.verifySerializedProof(
+    record.proof,
+    verifyOptions
+  );
+  const verification: CachedVerification = {
+    isValid: result.isValid,
+    verifiedAt: Date.now(),
+    verifierVersion: VERIFIER_VERSION,
+  };
+  if (result.error) {
+    verification.error = result.error;
+  }
+  if (optionsHash !== undefined) {
+    verification.optionsHash = optionsHash;
+    await store.recordVerification(id, verification);
+  }
+  return verification;
+}
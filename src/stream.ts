@@ -0,0 +1,177 @@
+import type {
+  ClaudeResponseBody,
+  ResponseContentBlock,
+  ResponseRule,
+  StopReason,
+  Usage,
+} from "./types.js";
+import { AnthropicApiError, ResponseParseError } from "./errors.js";
+
+/**
+ * Data payload of a streaming Messages API event, by event type
+ */
+export type SseEventData =
+  | { type: "message_start"; message: ClaudeResponseBody }
+  | { type: "content_block_start"; index: number; content_block: ResponseContentBlock }
+  | {
+      type: "content_block_delta";
+      index: number;
+      delta:
+        | { type: "text_delta"; text: string }
+        | { type: "input_json_delta"; partial_json: string };
+    }
+  | { type: "content_block_stop"; index: number }
+  | {
+      type: "message_delta";
+      delta: { stop_reason: StopReason | null; stop_sequence: string | null };
+      usage?: Partial<Usage>;
+    }
+  | { type: "message_stop" }
+  | { type: "error"; error?: { type?: string; message?: string } };
+
+/**
+ * Server-sent event from the Anthropic streaming Messages API
+ */
+export interface SseEvent {
+  /** Event name (e.g. "content_block_delta") */
+  event: string;
+  /** Parsed JSON data payload */
+  data: SseEventData;
+}
+
+/**
+ * Regex capturing a complete SSE transcript, from `message_start` through
+ * the `message_stop` event, so truncated streams cannot be proven. An
+ * error body (before or during the stream) is captured instead, so it can
+ * be raised as `AnthropicApiError`.
+ */
+export const STREAM_RESPONSE_REGEX =
+  '(?<response>event:\\s*message_start[\\s\\S]*"type":\\s*"message_stop"\\s*\\}' +
+  '|\\{\\s*"type":\\s*"error"[\\s\\S]*\\})';
+
+/**
+ * Rules proving a streamed Messages API response
+ */
+export const STREAM_RESPONSE_RULES: ResponseRule[] = [
+  { type: "regex", value: STREAM_RESPONSE_REGEX },
+];
+
+/**
+ * Whether a proven response body is an SSE transcript rather than JSON
+ */
+export function isSseTranscript(body: string): boolean {
+  return /^\s*event:/.test(body);
+}
+
+/**
+ * Parse an SSE transcript into events, skipping pings and comments
+ */
+export function parseSseEvents(transcript: string): SseEvent[] {
+  const events: SseEvent[] = [];
+
+  for (const chunk of transcript.split(/\r?\n\r?\n/)) {
+    let event = "";
+    const data: string[] = [];
+    for (const line of chunk.split(/\r?\n/)) {
+      if (line.startsWith("event:")) {
+        event = line.slice("event:".length).trim();
+      } else if (line.startsWith("data:")) {
+        data.push(line.slice("data:".length).trimStart());
+      }
+    }
+    if (!event || !data.length || event === "ping") {
+      continue;
+    }
+    events.push({ event, data: JSON.parse(data.join("\n")) });
+  }
+
+  return events;
+}
+
+/**
+ * Rebuild the final Messages API response from proven SSE events
+ *
+ * The result has the same shape as a non-streaming response, so the
+ * usual text extraction and content-binding checks apply to it.
+ * Tool inputs streamed as `input_json_delta` are parsed at block stop.
+ *
+ * @param transcript - The proven SSE transcript
+ * @returns Message object with id, model, content, stop_reason and usage
+ * @throws AnthropicApiError if the stream carried an `error` event
+ */
+export function reconstructStreamedMessage(transcript: string): ClaudeResponseBody {
+  let message: ClaudeResponseBody | undefined;
+  const content: ResponseContentBlock[] = [];
+  const partialJson = new Map<number, string>();
+
+  for (const { data } of parseSseEvents(transcript)) {
+    switch (data.type) {
+      case "message_start":
+        message = { ...data.message, content };
+        break;
+      case "content_block_start":
+        content[data.index] = { ...data.content_block };
+        break;
+      case "content_block_delta": {
+        const block = content[data.index];
+        if (block?.type === "text" && data.delta?.type === "text_delta") {
+          block.text = (block.text ?? "") + data.delta.text;
+        } else if (block && data.delta?.type === "input_json_delta") {
+          partialJson.set(
+            data.index,
+            (partialJson.get(data.index) ?? "") + data.delta.partial_json
+          );
+        }
+        break;
+      }
+      case "content_block_stop": {
+        const json = partialJson.get(data.index);
+        const block = content[data.index];
+        if (json !== undefined && block?.type === "tool_use") {
+          block.input = json ? JSON.parse(json) : {};
+        }
+        break;
+      }
+      case "message_delta":
+        if (message) {
+          Object.assign(message, data.delta);
+          message.usage = { ...message.usage, ...data.usage };
+        }
+        break;
+      case "error":
+        // e.g. an overload partway through the stream
+        throw new AnthropicApiError(
+          String(data.error?.type ?? "unknown_error"),
+          String(data.error?.message ?? "Unknown error"),
+          undefined,
+          data
+        );
+    }
+  }
+
+  if (!message) {
+    throw new ResponseParseError("SSE transcript has no message_start event");
+  }
+  return message;
+}
+
+/**
+ * Rebuild the final text from proven SSE events
+ *
+ * @param transcript - The proven SSE transcript
+ * @returns Concatenated text deltas of all text blocks
+ */
+export function reconstructStreamText(transcript: string): string {
+  return streamTextDeltas(transcript).join("");
+}
+
+/**
+ * Text deltas of all text blocks, in stream order
+ */
+export function streamTextDeltas(transcript: string): string[] {
+  return parseSseEvents(transcript).flatMap(({ data }) =>
+    data.type === "content_block_delta" && data.delta?.type === "text_delta"
+      ? [data.delta.text]
+      : []
+  );
+}
@@ -0,0 +1,187 @@
+import type { Proof } from "@reclaimprotocol/js-sdk";
+import type {
+  ClaudeGenerateOptions,
+  JsonSchema,
+  ResponseContentBlock,
+  SerializedClaudeProof,
+  StructuredGenerateOptions,
+  StructuredVerificationResult,
+  StructuredVerifyOptions,
+  VerifiableClaudeResult,
+} from "./types.js";
+import { VerifiableClaude } from "./index.js";
+import { parseProvenMessage } from "./verification.js";
+import {
+  findUnsupportedKeywords,
+  formatSchemaErrors,
+  validateSchema,
+} from "./schema.js";
+import { InvalidOptionsError, StructuredOutputError } from "./errors.js";
+
+/**
+ * Default name of the tool that carries structured output
+ */
+export const STRUCTURED_OUTPUT_TOOL = "structured_output";
+
+/**
+ * Reject an output schema using keywords `validateSchema()` cannot enforce
+ *
+ * @throws InvalidOptionsError naming the unsupported keywords
+ */
+function assertSupportedSchema(schema: JsonSchema): void {
+  const unsupported = findUnsupportedKeywords(schema);
+  if (unsupported.length > 0) {
+    throw new InvalidOptionsError(
+      `Structured output schema uses unsupported keywords: ${unsupported.join(", ")}`
+    );
+  }
+}
+
+/**
+ * Generation options forcing Claude to answer through a tool whose input
+ * schema is the output schema
+ *
+ * @param options - Structured generation options
+ * @param schema - JSON Schema of the output (must describe an object)
+ * @returns Options for `generate()`
+ * @throws InvalidOptionsError if the schema is not an object schema, uses
+ * unsupported keywords or the tool name is already taken
+ */
+export function createStructuredRequest(
+  options: StructuredGenerateOptions,
+  schema: JsonSchema
+): ClaudeGenerateOptions {
+  const {
+    toolName = STRUCTURED_OUTPUT_TOOL,
+    toolDescription = "Respond with the requested output",
+    ...generateOptions
+  } = options;
+  assertSupportedSchema(schema);
+  // Tool inputs are always objects
+  if (schema.type !== "object") {
+    throw new InvalidOptionsError("Structured output schema must have type 'object'");
+  }
+  const tools = generateOptions.tools ?? [];
+  if (tools.some((tool) => tool.name === toolName)) {
+    throw new InvalidOptionsError(`A tool named '${toolName}' is already defined`);
+  }
+
+  return {
+    ...generateOptions,
+    tools: [
+      ...tools,
+      { name: toolName, description: toolDescription, input_schema: { ...schema } },
+    ],
+    toolChoice: { type: "tool", name: toolName },
+  };
+}
+
+function findToolInput(
+  content: ResponseContentBlock[] | undefined,
+  toolName: string
+): Record<string, unknown> | undefined {
+  const block = content?.find(
+    (candidate) => candidate.type === "tool_use" && candidate.name === toolName
+  );
+  return block?.type === "tool_use" ? block.input : undefined;
+}
+
+/**
+ * Structured output proven by a proof: the input of its tool call
+ *
+ * Read from the witness-signed response, not from any wrapper around it.
+ *
+ * @param proof - The Reclaim proof
+ * @param toolName - Name of the tool carrying the output
+ * @returns The output, or undefined if the proven response has no such call
+ */
+export function getStructuredOutput(
+  proof: Proof,
+  toolName = STRUCTURED_OUTPUT_TOOL
+): Record<string, unknown> | undefined {
+  return findToolInput(parseProvenMessage(proof).content, toolName);
+}
+
+/**
+ * Read a result's structured output and validate it against the schema
+ *
+ * @throws InvalidOptionsError if the schema uses unsupported keywords
+ * @throws StructuredOutputError if the output is missing or invalid
+ */
+export function readStructuredOutput<T>(
+  result: VerifiableClaudeResult,
+  schema: JsonSchema,
+  toolName = STRUCTURED_OUTPUT_TOOL
+): T {
+  assertSupportedSchema(schema);
+  const value = findToolInput(result.content, toolName);
+  if (value === undefined) {
+    throw new StructuredOutputError(
+      `Response has no '${toolName}' tool call (stop reason: ${result.stopReason})`,
+      result
+    );
+  }
+  const errors = validateSchema(value, schema);
+  if (errors.length > 0) {
+    throw new StructuredOutputError(
+      `Structured output violates its schema: ${formatSchemaErrors(errors)}`,
+      result,
+      errors
+    );
+  }
+  return value as T;
+}
+
+/**
+ * Verify a structured output proof and re-validate the output it proves
+ *
+ * The proof is verified like `verifySerializedProof()`; the output is then
+ * re-extracted from the proven response and validated against the
+ * verifier's own schema, so its fields can be trusted as they are.
+ *
+ * @param serialized - Serialized proof from `generateStructured()`
+ * @param schema - Schema the output must satisfy
+ * @param options - Verification options and the tool name
+ * @returns Verification result with the output, if valid
+ * @throws InvalidOptionsError if the schema uses unsupported keywords, since
+ * the output could not be checked against it
+ *
+ * @example
+ * ```typescript
+ * const { isValid, value } = await verifyStructuredProof<Decision>(serialized, DECISION_SCHEMA);
+ * if (isValid) execute(value.action, value.size);
+ * ```
+ */
+export async function verifyStructuredProof<T = Record<string, unknown>>(
+  serialized: SerializedClaudeProof,
+  schema: JsonSchema,
+  options: StructuredVerifyOptions = {}
+): Promise<StructuredVerificationResult<T>> {
+  const { toolName = STRUCTURED_OUTPUT_TOOL, ...verifyOptions } = options;
+  assertSupportedSchema(schema);
+  const verification = await VerifiableClaude.verifySerializedProof(
+    serialized,
+    verifyOptions
+  );
+  if (!verification.isValid) {
+    return verification;
+  }
+
+  const value = getStructuredOutput(JSON.parse(serialized.proofJson), toolName);
+  const schemaErrors = value === undefined ? [] : validateSchema(value, schema);
+  if (value === undefined || schemaErrors.length > 0) {
+    const message =
+      value === undefined
+        ? `Proof has no '${toolName}' tool call`
+        : `Structured output violates its schema: ${formatSchemaErrors(schemaErrors)}`;
+    return {
+      ...verification,
+      isValid: false,
+      verifiedEndpoint: undefined,
+      error: message,
+      failure: { code: "schema_violation", message },
+      schemaErrors,
+    };
+  }
+  return { ...verification, value: value as T };
+}
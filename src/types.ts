@@ -1,25 +1,431 @@
 import type { Proof } from "@reclaimprotocol/js-sdk";
 
+/**
+ * Text content block
+ */
+export interface TextBlock {
+  type: "text";
+  text: string;
+}
+
+/**
+ * Image content block (base64 data or URL source)
+ */
+export interface ImageBlock {
+  type: "image";
+  source:
+    | {
+        type: "base64";
+        media_type: "image/jpeg" | "image/png" | "image/gif" | "image/webp";
+        data: string;
+      }
+    | { type: "url"; url: string };
+}
+
+/**
+ * Tool call made by the model
+ */
+export interface ToolUseBlock {
+  type: "tool_use";
+  /** Tool call id, referenced by the matching tool_result */
+  id: string;
+  /** Name of the tool being called */
+  name: string;
+  /** Tool input, conforming to the tool's input_schema */
+  input: Record<string, unknown>;
+}
+
+/**
+ * Result of a tool call, sent back in a user message
+ */
+export interface ToolResultBlock {
+  type: "tool_result";
+  /** Id of the tool_use block this answers */
+  tool_use_id: string;
+  /** Tool output */
+  content?: string | Array<TextBlock | ImageBlock>;
+  /** Whether the tool call failed */
+  is_error?: boolean;
+}
+
+/**
+ * Anthropic content block
+ */
+export type ContentBlock = TextBlock | ImageBlock | ToolUseBlock | ToolResultBlock;
+
+/**
+ * Content block the model can return
+ */
+export type ResponseContentBlock = TextBlock | ToolUseBlock;
+
 /**
  * Message format for chat APIs
  */
 export interface Message {
   role: "user" | "assistant" | "system";
-  content: string;
+  content: string | ContentBlock[];
+}
+
+/**
+ * Tool the model may call
+ */
+export interface Tool {
+  /** Tool name */
+  name: string;
+  /** What the tool does, shown to the model */
+  description?: string;
+  /** JSON Schema for the tool input */
+  input_schema: Record<string, unknown>;
+}
+
+/**
+ * How the model should use the provided tools
+ */
+export type ToolChoice =
+  | { type: "auto"; disable_parallel_tool_use?: boolean }
+  | { type: "any"; disable_parallel_tool_use?: boolean }
+  | { type: "tool"; name: string; disable_parallel_tool_use?: boolean };
+
+/**
+ * Why the model stopped generating
+ */
+export type StopReason = "end_turn" | "max_tokens" | "stop_sequence" | "tool_use";
+
+/**
+ * Token usage reported by the API
+ */
+export interface Usage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+/**
+ * A Messages API response body
+ *
+ * Read from a proof made with `disclose`, only the disclosed fields are
+ * present.
+ */
+export interface ClaudeResponseBody {
+  id: string;
+  type: "message";
+  role: "assistant";
+  model: string;
+  content: ResponseContentBlock[];
+  stop_reason: StopReason | null;
+  stop_sequence: string | null;
+  usage: Usage;
+  /** Fields this library does not read */
+  [field: string]: unknown;
+}
+
+/**
+ * The HTTP request a proof attests was sent
+ */
+export interface ProvenRequest {
+  /** Full request URL */
+  url: string;
+  /** HTTP method */
+  method: string;
+  /** Exact request body string that was sent */
+  body: string;
+}
+
+/**
+ * Rule the proven response must match
+ */
+export interface ResponseMatch {
+  type: "regex" | "contains";
+  value: string;
+}
+
+/**
+ * Declarative rule for the proven response, compiled into zkFetch
+ * response matches and redactions by `compileResponseRules()`
+ */
+export type ResponseRule =
+  | {
+      /** Reveal the JSON value at a path and extract it */
+      type: "jsonPath";
+      /** JSON path: `$` for the whole body, or e.g. `$.content[0].text` */
+      path: string;
+      /** Extracted parameter name (default: derived from the path) */
+      name?: string;
+    }
+  | {
+      /** The revealed response must contain a string */
+      type: "contains";
+      /** The string */
+      value: string;
+    }
+  | {
+      /** The revealed response must match a regex; named groups are extracted */
+      type: "regex";
+      /** The regex */
+      value: string;
+    };
+
+/**
+ * Part of the response to reveal to the witnesses; the rest is hidden
+ */
+export interface ResponseRedaction {
+  /** JSON path of the revealed value, e.g. `$.content[0].text` */
+  jsonPath?: string;
+  /** Regex of the revealed text */
+  regex?: string;
+}
+
+/**
+ * Trust model that produced a proof: zkTLS witnesses or a TEE attestor
+ *
+ * Taken from the attestor the proof names, which is not signed; a
+ * `requireTee` policy checks it against the signers.
+ */
+export type ProofMode = "zk" | "tee";
+
+/**
+ * Proof generation settings passed through to zkFetch
+ */
+export interface ProofOptions {
+  /** Run proof generation in Reclaim's TEE (default: false) */
+  useTee?: boolean;
+  /** Number of zkFetch attempts (default: 1) */
+  retries?: number;
+  /** Delay between attempts in ms (default: 1000) */
+  retryInterval?: number;
+  /** Give up on proof generation after this many ms */
+  timeoutMs?: number;
+  /** Witness location, e.g. "US" (zkFetch `geoLocation`) */
+  geoLocation?: string;
+  /** Context signed into the claim (zkFetch `context`) */
+  context?: { contextAddress: string; contextMessage: string };
+}
+
+/**
+ * An HTTP request to be sent and proven by a proof backend
+ */
+export interface ProofRequest {
+  /** Full request URL */
+  url: string;
+  /** HTTP method */
+  method: string;
+  /** Public headers, included in the proof */
+  headers: Record<string, string>;
+  /** Request body, included in the proof */
+  body: string;
+  /** Secret headers (e.g. API keys), hidden from the proof */
+  secretHeaders: Record<string, string>;
+  /** Values for `{{name}}` placeholders in the body, hidden from the proof */
+  secretParamValues?: Record<string, string>;
+  /** Rules the response must match; named regex groups are extracted */
+  responseMatches: ResponseMatch[];
+  /** Parts of the response the matches may see (default: all of it) */
+  responseRedactions?: ResponseRedaction[];
+  /** Proof generation settings */
+  options?: ProofOptions;
+}
+
+/**
+ * Origin and time signed by the witnesses in `proof.claimData`
+ */
+export interface AttestedOrigin {
+  /** Full request URL from the claim parameters */
+  url: string;
+  /** Host of the request URL */
+  host: string;
+  /** HTTP method from the claim parameters */
+  method: string;
+  /** Witness-signed claim time (unix seconds) */
+  timestampS: number;
+}
+
+/**
+ * A claimed value that disagrees with what the proof attests
+ */
+export interface FieldMismatch {
+  /** Value claimed by the result or serialized proof */
+  expected: string;
+  /** Value found inside the proof (undefined if absent) */
+  actual?: string;
+}
+
+/**
+ * Content-binding mismatches between a result and its proof.
+ * Each field is only present when that check failed.
+ */
+export interface VerificationMismatches {
+  /** Response text differs from the proven response */
+  text?: FieldMismatch;
+  /** Model differs from the proven response */
+  model?: FieldMismatch;
+  /** Message id differs from the proven response */
+  messageId?: FieldMismatch;
+  /** Content blocks differ from the proven response */
+  content?: FieldMismatch;
+  /** Request URL differs from the proven claim parameters */
+  url?: FieldMismatch;
+  /** Request method differs from the proven claim parameters */
+  method?: FieldMismatch;
+  /** Request body differs from the proven claim parameters */
+  requestBody?: FieldMismatch;
+  /** Timestamp differs from the witness-signed claim time */
+  timestamp?: FieldMismatch;
+  /** Origin host differs from the attested host */
+  origin?: FieldMismatch;
+}
+
+/**
+ * Trust requirements a proof must meet on top of signature and content checks
+ */
+export interface VerificationPolicy {
+  /** Reject proofs whose attested claim time is older than this, or in the future (seconds) */
+  maxAgeSeconds?: number;
+  /** Accept only these models (checked against the proven response) */
+  allowedModels?: ClaudeModel[];
+  /** Accept only proofs signed by witnesses with these ids (signing addresses) */
+  allowedWitnessIds?: string[];
+  /** Accept only signatures recovered to one of these addresses */
+  allowedSigners?: string[];
+  /** Require this exact attested origin host */
+  requiredOriginHost?: string;
+  /** Require every signature to come from one of `teeSigners` */
+  requireTee?: boolean;
+  /** Signing addresses of trusted TEE attestors, for `requireTee` */
+  teeSigners?: string[];
+  /** Require signatures from at least this many distinct witnesses */
+  minSignatures?: number;
+}
+
+/**
+ * Name of a rule in a verification policy
+ */
+export type PolicyRule =
+  | "maxAge"
+  | "allowedModels"
+  | "allowedWitnessIds"
+  | "allowedSigners"
+  | "requiredOriginHost"
+  | "requireTee"
+  | "minSignatures";
+
+/**
+ * Outcome of a single policy rule
+ */
+export interface PolicyRuleResult {
+  /** The rule that was evaluated */
+  rule: PolicyRule;
+  /** Whether the proof satisfied the rule */
+  passed: boolean;
+  /** Human-readable explanation */
+  detail: string;
+}
+
+/**
+ * Outcome of evaluating a verification policy
+ */
+export interface PolicyEvaluation {
+  /** Whether every configured rule passed */
+  satisfied: boolean;
+  /** Rules the proof satisfied */
+  passed: PolicyRuleResult[];
+  /** Rules the proof violated */
+  failed: PolicyRuleResult[];
+}
+
+/**
+ * Why a proof failed verification
+ *
+ * - `malformed_proof`: the proof, its claim or its proven response could not be parsed
+ * - `unknown_provider`: the proof names an inference provider this verifier does not know
+ * - `verifier_error`: the signatures could not be checked (e.g. the verifier threw)
+ * - `invalid_signature`: the witness signatures are invalid
+ * - `origin_not_allowed`: the attested host is not on the allowlist
+ * - `content_mismatch`: the claimed content does not match the proof
+ * - `policy_violation`: the proof violates the verification policy
+ * - `not_in_batch`: the proof is not included under the given Merkle root
+ * - `schema_violation`: the proven structured output is missing or violates its schema
+ */
+export type VerificationFailureCode =
+  | "malformed_proof"
+  | "unknown_provider"
+  | "verifier_error"
+  | "invalid_signature"
+  | "origin_not_allowed"
+  | "content_mismatch"
+  | "policy_violation"
+  | "not_in_batch"
+  | "schema_violation";
+
+/**
+ * Structured reason a verification failed
+ */
+export interface VerificationFailure {
+  /** Stable failure code */
+  code: VerificationFailureCode;
+  /** Human-readable description (the same as the result's `error`) */
+  message: string;
+  /** Claimed fields that do not match the proof, for `content_mismatch` */
+  fields?: string[];
+  /** Policy rules the proof violated, for `policy_violation` */
+  rules?: PolicyRule[];
 }
 
 /**
  * Verification result
  */
 export interface VerificationResult {
-  /** Whether the proof is valid */
+  /** Whether the proof is valid and bound to the claimed content */
   isValid: boolean;
-  /** The verified endpoint (origin) */
+  /** Whether the witness signatures on the proof are valid */
+  signatureValid: boolean;
+  /** Claimed fields that do not match the proof */
+  mismatches: VerificationMismatches;
+  /** Whether the attested host is on the allowlist */
+  originAllowed: boolean;
+  /** Origin and time attested by the proof */
+  attested?: AttestedOrigin;
+  /** Policy rule outcomes (present when a policy was given) */
+  policy?: PolicyEvaluation;
+  /** The verified endpoint (origin), taken from the proof */
   verifiedEndpoint?: string;
   /** Error message if verification failed */
   error?: string;
+  /** Structured reason, if verification failed */
+  failure?: VerificationFailure;
 }
 
+/**
+ * Stable code of a failed generation
+ *
+ * - `invalid_options`: the generation options are invalid
+ * - `api_authentication`, `api_permission`, `api_invalid_request`,
+ *   `api_not_found`, `api_request_too_large`, `api_rate_limited`,
+ *   `api_overloaded`, `api_error`: the Anthropic API returned an error body
+ * - `response_mismatch`: the response did not match the proof's response rules
+ * - `response_invalid`: the proven response could not be extracted or parsed
+ * - `schema_violation`: the structured output is missing or violates its schema
+ * - `witness_unavailable`: the witness or attestor failed to produce a proof
+ * - `proof_timeout`: proof generation exceeded `timeoutMs`
+ * - `audit_log_failed`: the proof was generated but not appended to the audit log
+ * - `generation_failed`: any other failure
+ */
+export type GenerationErrorCode =
+  | "invalid_options"
+  | "api_authentication"
+  | "api_permission"
+  | "api_invalid_request"
+  | "api_not_found"
+  | "api_request_too_large"
+  | "api_rate_limited"
+  | "api_overloaded"
+  | "api_error"
+  | "response_mismatch"
+  | "response_invalid"
+  | "schema_violation"
+  | "witness_unavailable"
+  | "proof_timeout"
+  | "audit_log_failed"
+  | "generation_failed";
+
 /**
  * Configuration for the verifiable Claude client
  */
@@ -27,11 +433,68 @@ export interface VerifiableClaudeConfig {
   /** Anthropic API key */
   apiKey: string;
   /** Reclaim Protocol App ID (from dev.reclaimprotocol.org) */
-  reclaimAppId: string;
+  reclaimAppId?: string;
   /** Reclaim Protocol App Secret */
-  reclaimAppSecret: string;
+  reclaimAppSecret?: string;
+  /** Optional: Proof backend (default: Reclaim, using the app credentials) */
+  backend?: ProofBackend;
   /** Optional: Override the Anthropic API endpoint */
   endpoint?: string;
+  /** Hosts accepted as proof origin by verify() (default: api.anthropic.com) */
+  allowedHosts?: string[];
+  /** Default proof generation settings (TEE mode, retries, timeouts) */
+  proofOptions?: ProofOptions;
+  /** Optional: Audit log that every generated proof is appended to */
+  auditLog?: AuditLog;
+}
+
+/**
+ * Options for verifying a proof
+ */
+export interface VerifyOptions {
+  /** Hosts accepted as proof origin (default: api.anthropic.com) */
+  allowedHosts?: string[];
+  /** Additional trust requirements the proof must meet */
+  policy?: VerificationPolicy;
+  /** Current time in ms used for age checks (default: Date.now()) */
+  now?: number;
+  /** Backend used to check proof signatures (default: Reclaim) */
+  backend?: ProofBackend;
+  /**
+   * Accept "manual-verify" witnesses, whose signer is named by the proof
+   * itself (default: false). Requires an `allowedSigners` policy; without
+   * one, every proof fails verification.
+   */
+  allowManualVerify?: boolean;
+}
+
+/**
+ * Options for verifying a structured output proof
+ */
+export interface StructuredVerifyOptions extends VerifyOptions {
+  /** Name of the tool carrying the output (default: "structured_output") */
+  toolName?: string;
+}
+
+/**
+ * Verification result of a structured output proof
+ */
+export interface StructuredVerificationResult<T = Record<string, unknown>>
+  extends VerificationResult {
+  /** The proven output, if the proof is valid and it matches the schema */
+  value?: T;
+  /** Schema violations of the proven output */
+  schemaErrors?: SchemaError[];
+}
+
+/**
+ * Produces and verifies zkTLS proofs of HTTP requests
+ */
+export interface ProofBackend {
+  /** Send a request and return a proof of its response */
+  fetchWithProof(request: ProofRequest): Promise<Proof>;
+  /** Check the witness signatures on a proof */
+  verify(proof: Proof): Promise<boolean>;
 }
 
 /**
@@ -63,43 +526,789 @@ export interface ClaudeGenerateOptions {
   temperature?: number;
   /** Stop sequences */
   stopSequences?: string[];
+  /** Tools the model may call */
+  tools?: Tool[];
+  /** How the model should use the tools */
+  toolChoice?: ToolChoice;
+  /** Proof generation settings for this call (merged over the config) */
+  proofOptions?: ProofOptions;
+  /**
+   * Keep the prompt and system prompt out of the proof: they are sent as
+   * secret parameters, and only a salted commitment is public
+   */
+  privatePrompt?: boolean;
+  /**
+   * Response fields to make public, e.g. `["content[0].text", "model"]`.
+   * Only these are extracted into the proof; the rest of the response is
+   * hidden from it (default: the whole response is public).
+   */
+  disclose?: string[];
 }
 
 /**
- * Result from a verifiable Claude inference call
+ * Result from a verifiable inference call to any provider
  */
-export interface VerifiableClaudeResult {
+export interface VerifiableResult {
   /** The generated text response */
   text: string;
   /** The cryptographic proof from Reclaim Protocol */
   proof: Proof;
-  /** Timestamp of generation */
+  /** Timestamp of generation (ms), from the witness-signed claim time */
   timestamp: number;
+  /** Origin and time attested by the proof */
+  attested: AttestedOrigin;
   /** The model used */
-  model: ClaudeModel;
+  model: string;
+  /** Provider message id of the proven response */
+  messageId: string;
+  /** The request that was sent */
+  request: ProvenRequest;
   /** Verification provider */
   provider: "reclaim";
+  /** Trust model reported by the proof (see `getProofMode()`) */
+  proofMode: ProofMode;
+  /** Inference provider name (e.g. "anthropic", "openai") */
+  inferenceProvider: string;
+  /** Host the request went to, from the proof */
+  origin: string;
   /** Raw API response (for debugging) */
   rawResponse?: unknown;
 }
 
+/**
+ * Result from a verifiable Claude inference call
+ */
+export interface VerifiableClaudeResult extends VerifiableResult {
+  /** The generated text response (all text blocks, concatenated) */
+  text: string;
+  /** All proven content blocks, including tool calls */
+  content: ResponseContentBlock[];
+  /** Why the model stopped generating */
+  stopReason: StopReason | null;
+  /** Token usage */
+  usage: Usage;
+  /** The model used */
+  model: ClaudeModel;
+  /**
+   * Preimage of the prompt commitment, with `privatePrompt` only. Keep it
+   * private; it is not part of `serializeResult()`.
+   */
+  promptReveal?: PromptReveal;
+  /** Disclosed response fields by path, with `disclose` only */
+  disclosed?: Record<string, unknown>;
+}
+
+/**
+ * Options for `generateStructured()`
+ *
+ * The output is forced through a tool call, so `toolChoice` and
+ * `disclose` are not available.
+ */
+export interface StructuredGenerateOptions
+  extends Omit<ClaudeGenerateOptions, "toolChoice" | "disclose"> {
+  /** Name of the tool carrying the output (default: "structured_output") */
+  toolName?: string;
+  /** Tool description, telling Claude what the output is for */
+  toolDescription?: string;
+}
+
+/**
+ * Result from `generateStructured()`
+ */
+export interface VerifiableStructuredResult<T = Record<string, unknown>>
+  extends VerifiableClaudeResult {
+  /** The proven output, validated against the schema */
+  value: T;
+}
+
 /**
  * Serialized proof for storage/transmission
  */
-export interface SerializedClaudeProof {
+export interface SerializedProof {
   /** The proof data as JSON string */
   proofJson: string;
   /** The response text */
   text: string;
-  /** Timestamp */
+  /** Timestamp (ms), from the witness-signed claim time */
   timestamp: number;
   /** Model used */
-  model: ClaudeModel;
+  model: string;
+  /** Provider message id (absent in proofs serialized by older versions) */
+  messageId?: string;
+  /** The request that was sent (absent in proofs serialized by older versions) */
+  request?: ProvenRequest;
   /** Provider identifier */
   provider: "reclaim";
+  /** Trust model reported by the proof (absent means "zk") */
+  proofMode?: ProofMode;
+  /** Inference provider name (absent means "anthropic") */
+  inferenceProvider?: string;
+  /** Host the request went to */
+  origin?: string;
+}
+
+/**
+ * Serialized Claude proof for storage/transmission
+ */
+export interface SerializedClaudeProof extends SerializedProof {
+  /** Model used */
+  model: ClaudeModel;
+}
+
+/**
+ * Options for generating text with any inference provider
+ */
+export interface ProviderGenerateOptions {
+  /** The model to use (provider-specific name) */
+  model: string;
+  /** Messages to send (for multi-turn conversations) */
+  messages?: { role: "user" | "assistant"; content: string }[];
+  /** Single prompt (convenience for single-turn) */
+  prompt?: string;
+  /** System prompt */
+  system?: string;
+  /** Maximum tokens to generate */
+  maxTokens?: number;
+  /** Temperature */
+  temperature?: number;
+  /** Stop sequences */
+  stopSequences?: string[];
+  /** Proof generation settings for this call (merged over the config) */
+  proofOptions?: ProofOptions;
+}
+
+/**
+ * Fields read from a provider's proven response
+ */
+export interface ParsedResponse {
+  /** Generated text */
+  text: string;
+  /** Model reported by the provider */
+  model: string;
+  /** Provider message id */
+  id: string;
+  /** Provider-specific content (compared when the result claims it) */
+  content?: unknown;
+}
+
+/**
+ * Reads text, model and id from a provider's proven response
+ */
+export type ResponseParser = (response: Record<string, unknown>) => ParsedResponse;
+
+/**
+ * Adapter describing how to call one chat API verifiably
+ */
+export interface InferenceProvider {
+  /** Provider name recorded on results (e.g. "openai") */
+  name: string;
+  /** Full URL of the chat endpoint */
+  url: string;
+  /** Secret authentication headers, hidden from the proof */
+  authHeaders(apiKey: string): Record<string, string>;
+  /** Map generic options to the provider's request body */
+  buildBody(options: ProviderGenerateOptions): Record<string, unknown>;
+  /** Rules for the proven response, extracting the body as `response` */
+  responseRules: ResponseRule[];
+  /** Read text, model and id from the proven response */
+  parseResponse: ResponseParser;
+  /** The error in a proven error body, raised instead of a result */
+  parseError?: (response: Record<string, unknown>) => Error | undefined;
+}
+
+/**
+ * Configuration for a verifiable client of any provider
+ */
+export interface VerifiableInferenceConfig {
+  /** The provider adapter */
+  provider: InferenceProvider;
+  /** Provider API key */
+  apiKey: string;
+  /** Reclaim Protocol App ID (from dev.reclaimprotocol.org) */
+  reclaimAppId?: string;
+  /** Reclaim Protocol App Secret */
+  reclaimAppSecret?: string;
+  /** Optional: Proof backend (default: Reclaim, using the app credentials) */
+  backend?: ProofBackend;
+  /** Default proof generation settings (TEE mode, retries, timeouts) */
+  proofOptions?: ProofOptions;
+}
+
+/**
+ * Options for verifying proofs from any provider
+ */
+export interface ProviderVerifyOptions extends VerifyOptions {
+  /** Extra provider adapters, looked up by `inferenceProvider` name */
+  providers?: InferenceProvider[];
+}
+
+/**
+ * Transcript of a verifiable conversation, for third-party verification
+ */
+export interface ConversationTranscript {
+  /** Serialized proofs of each turn, in order */
+  turns: SerializedClaudeProof[];
+}
+
+/**
+ * A turn that does not continue the previous proven turn
+ */
+export interface TranscriptLinkError {
+  /** Index of the offending turn */
+  turn: number;
+  /** Why the link is broken */
+  reason: string;
+}
+
+/**
+ * Result of verifying a conversation transcript
+ */
+export interface TranscriptVerificationResult {
+  /** Whether every turn is valid and correctly chained */
+  isValid: boolean;
+  /** Verification result of each turn's proof */
+  turns: VerificationResult[];
+  /** Turns that are spliced, reordered or invented */
+  brokenLinks: TranscriptLinkError[];
+}
+
+/**
+ * Output of an agent tool, fed back to the model as a tool_result
+ */
+export type AgentToolOutput = string | Array<TextBlock | ImageBlock>;
+
+/**
+ * Tool an agent may call, with the function that executes it
+ */
+export interface AgentTool extends Tool {
+  /** Execute a call; a thrown error is fed back as an error result */
+  run: (
+    input: Record<string, unknown>,
+    call: ToolUseBlock
+  ) => AgentToolOutput | Promise<AgentToolOutput>;
+}
+
+/**
+ * A tool call an agent executed
+ */
+export interface AgentTraceAction {
+  /** Index of the turn whose proven response made the call */
+  turn: number;
+  /** The proven tool_use block */
+  toolUse: ToolUseBlock;
+  /** The tool_result fed back in the next turn */
+  result: ToolResultBlock;
+}
+
+/**
+ * Trace of an agent run, for third-party verification
+ */
+export interface AgentTrace {
+  /** Serialized proofs of each model turn, in order */
+  turns: SerializedClaudeProof[];
+  /** Every executed tool call, in order */
+  actions: AgentTraceAction[];
+}
+
+/**
+ * Outcome of an agent run
+ */
+export interface AgentRunResult {
+  /** Text of the last proven turn */
+  text: string;
+  /** Why the last turn stopped, or "max_turns" if the loop was cut off */
+  stopReason: StopReason | "max_turns" | null;
+  /** Results of every model turn */
+  turns: VerifiableClaudeResult[];
+  /** The trace linking each action to its proofs */
+  trace: AgentTrace;
+}
+
+/**
+ * An action that does not trace to the proofs
+ */
+export interface AgentActionError {
+  /** Index of the offending action */
+  action: number;
+  /** Why it does not trace */
+  reason: string;
+}
+
+/**
+ * Result of verifying an agent trace
+ */
+export interface AgentTraceVerificationResult extends TranscriptVerificationResult {
+  /** Actions not made by a proven turn or not fed back to the next one */
+  untracedActions: AgentActionError[];
 }
 
 // Type aliases
-export type VerifiableResult = VerifiableClaudeResult;
-export type SerializedProof = SerializedClaudeProof;
 export type GenerateOptions = ClaudeGenerateOptions;
+
+/**
+ * JSON Schema subset understood by `validateSchema()`
+ */
+export interface JsonSchema {
+  /** Allowed JSON type(s) */
+  type?: JsonSchemaType | JsonSchemaType[];
+  /** Allowed values */
+  enum?: unknown[];
+  /** Property schemas (objects) */
+  properties?: Record<string, JsonSchema>;
+  /** Required property names (objects) */
+  required?: string[];
+  /** Whether properties not listed are allowed, or their schema (objects) */
+  additionalProperties?: boolean | JsonSchema;
+  /** Item schema (arrays) */
+  items?: JsonSchema;
+  /** Minimum number of items (arrays) */
+  minItems?: number;
+  /** Maximum number of items (arrays) */
+  maxItems?: number;
+  /** Minimum length (strings) */
+  minLength?: number;
+  /** Maximum length (strings) */
+  maxLength?: number;
+  /** Pattern the value must match (strings) */
+  pattern?: string;
+  /** Inclusive lower bound (numbers) */
+  minimum?: number;
+  /** Inclusive upper bound (numbers) */
+  maximum?: number;
+  /** Value must match at least one of these schemas */
+  anyOf?: JsonSchema[];
+  /** Human-readable description */
+  description?: string;
+}
+
+/**
+ * JSON type names used in schemas
+ */
+export type JsonSchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "object"
+  | "array"
+  | "null";
+
+/**
+ * A single schema violation
+ */
+export interface SchemaError {
+  /** JSON Pointer to the offending value ("" for the root) */
+  path: string;
+  /** What is wrong with it */
+  message: string;
+}
+
+/**
+ * Verification outcome cached alongside a stored proof
+ */
+export interface CachedVerification {
+  /** Whether the proof verified */
+  isValid: boolean;
+  /** Error message if verification failed */
+  error?: string;
+  /** When verification ran (ms) */
+  verifiedAt: number;
+  /** VERIFIER_VERSION of the code that verified it */
+  verifierVersion: string;
+  /** Hash of the verify options it was produced with (see `getVerifyOptionsHash()`) */
+  optionsHash?: string;
+}
+
+/**
+ * A proof held in a ProofStore
+ */
+export interface StoredProof {
+  /** Content hash of the canonical serialized proof */
+  id: string;
+  /** The serialized proof */
+  proof: SerializedProof;
+  /** Hash of the proven prompt (system + messages), if a request was recorded */
+  promptHash?: string;
+  /** When the proof was stored (ms) */
+  storedAt: number;
+  /** Latest cached verification outcome */
+  verification?: CachedVerification;
+}
+
+/**
+ * Filters for `ProofStore.query()`; all given filters must match
+ */
+export interface ProofQuery {
+  /** Model that produced the response */
+  model?: string;
+  /** Earliest proof timestamp, inclusive (ms) */
+  from?: number;
+  /** Latest proof timestamp, inclusive (ms) */
+  to?: number;
+  /** Prompt hash, as returned by `getPromptHash()` */
+  promptHash?: string;
+  /** Cached verification status */
+  status?: "valid" | "invalid" | "unverified";
+  /** Maximum number of results (newest first) */
+  limit?: number;
+}
+
+/**
+ * Persistent storage for serialized proofs
+ */
+export interface ProofStore {
+  /** Store a proof (idempotent) and return its record */
+  put(proof: SerializedProof): Promise<StoredProof>;
+  /** Look up a proof by id */
+  get(id: string): Promise<StoredProof | undefined>;
+  /** Find proofs matching all filters, newest first */
+  query(query?: ProofQuery): Promise<StoredProof[]>;
+  /** Cache a verification outcome for a stored proof */
+  recordVerification(id: string, verification: CachedVerification): Promise<void>;
+}
+
+/**
+ * One entry of a hash-chained audit log
+ */
+export interface LedgerEntry {
+  /** Position in the log, starting at 0 */
+  sequence: number;
+  /** When the entry was appended (ms) */
+  timestamp: number;
+  /** Content hash of the proof (see `getProofId()`) */
+  proofId: string;
+  /** Hash of the proven request (url, method, body) */
+  requestHash: string;
+  /** The serialized proof */
+  proof: SerializedProof;
+  /** Hash of the previous entry (LEDGER_GENESIS_HASH for the first) */
+  previousHash: string;
+  /** Hash of this entry's other fields */
+  hash: string;
+}
+
+/**
+ * Append-only, hash-chained log of verifiable inferences
+ */
+export interface AuditLog {
+  /** Append a proof, chained to the current head */
+  append(proof: SerializedProof): Promise<LedgerEntry>;
+  /** All entries, in stored order */
+  entries(): Promise<LedgerEntry[]>;
+}
+
+/**
+ * How a ledger chain is broken
+ */
+export type LedgerBreak =
+  | "modified"
+  | "broken_link"
+  | "deleted"
+  | "reordered"
+  | "invalid_proof";
+
+/**
+ * Result of replaying a ledger with `verifyLedger()`
+ */
+export interface LedgerVerificationResult {
+  /** Whether the chain is intact and every proof verified */
+  isValid: boolean;
+  /** Number of entries replayed */
+  entryCount: number;
+  /** Hash of the last entry, to anchor or compare against a copy */
+  headHash: string;
+  /** The first problem found, if any */
+  firstBreak?: {
+    /** Index of the offending entry in the log */
+    index: number;
+    /** Kind of break */
+    type: LedgerBreak;
+    /** Human-readable description */
+    detail: string;
+  };
+}
+
+/**
+ * One sibling hash on a Merkle inclusion path
+ */
+export interface MerklePathStep {
+  /** Sibling node hash (hex) */
+  hash: string;
+  /** Which side the sibling is on */
+  position: "left" | "right";
+}
+
+/**
+ * Proof that one serialized proof is a leaf of a Merkle batch
+ */
+export interface InclusionProof {
+  /** Proof id of the leaf (see `getProofId()`) */
+  proofId: string;
+  /** Leaf index in the batch */
+  index: number;
+  /** Number of leaves in the batch */
+  size: number;
+  /** Sibling hashes from the leaf up to the root */
+  path: MerklePathStep[];
+  /** Root of the batch (hex) */
+  root: string;
+}
+
+/**
+ * A batch of proofs committed to by a single Merkle root
+ */
+export interface MerkleBatch {
+  /** Root commitment to publish or anchor (hex) */
+  root: string;
+  /** Proof ids of the leaves, in order */
+  proofIds: string[];
+  /** Inclusion proof for each leaf, in the same order */
+  inclusionProofs: InclusionProof[];
+}
+
+/**
+ * A proof in the struct layout of Reclaim's verifier contract
+ */
+export interface OnchainProof {
+  /** Claim contents, hashed into the identifier on-chain */
+  claimInfo: {
+    /** Provider name ("http") */
+    provider: string;
+    /** Claim parameters JSON */
+    parameters: string;
+    /** Claim context JSON */
+    context: string;
+  };
+  /** The claim the witnesses signed */
+  signedClaim: {
+    /** Signed claim data */
+    claim: {
+      /** Claim identifier (bytes32 hex) */
+      identifier: string;
+      /** Claim owner address */
+      owner: string;
+      /** Claim time (seconds) */
+      timestampS: number;
+      /** Witness set epoch */
+      epoch: number;
+    };
+    /** Witness signatures (hex) */
+    signatures: string[];
+  };
+}
+
+/**
+ * ABI encodings of a proof for Reclaim's verifier contract
+ */
+export interface OnchainCalldata {
+  /** The proof struct */
+  proof: OnchainProof;
+  /** ABI-encoded proof tuple (hex) */
+  encoded: string;
+  /** Calldata for `verifyProof(proof)`, selector included (hex) */
+  calldata: string;
+}
+
+/**
+ * Result of checking an on-chain proof offline
+ */
+export interface OnchainVerificationResult {
+  /** Whether the identifier checks out and every signer is allowed */
+  isValid: boolean;
+  /** Whether `claim.identifier` is the hash of `claimInfo` */
+  identifierValid: boolean;
+  /** Addresses recovered from the signatures */
+  signers: string[];
+  /** Error message if verification failed */
+  error?: string;
+}
+
+/**
+ * Versioned, self-describing proof bundle
+ *
+ * Unlike SerializedProof, the proof is embedded as an object (not a JSON
+ * string) so the whole bundle has one canonical encoding.
+ */
+export interface ProofBundle {
+  /** Bundle format version */
+  version: 1;
+  /** Proof system that produced `proof` (currently always "reclaim") */
+  provider: string;
+  /** The proof */
+  proof: Proof;
+  /** The generated text */
+  text: string;
+  /** Timestamp of generation (ms) */
+  timestamp: number;
+  /** The model used */
+  model: string;
+  /** Provider message id of the proven response */
+  messageId?: string;
+  /** The proven request */
+  request?: ProvenRequest;
+  /** Whether the proof came from zk or TEE mode */
+  proofMode?: ProofMode;
+  /** Inference provider adapter name */
+  inferenceProvider?: string;
+  /** Attested origin host */
+  origin?: string;
+}
+
+/**
+ * What a credential attests about one inference
+ */
+export interface InferenceClaimSubject {
+  /** The model that produced the response */
+  model: string;
+  /** Hash of the proven prompt (see `getPromptHash()`) */
+  promptHash: string;
+  /** Hex SHA-256 of the response text */
+  responseHash: string;
+  /** Witness-attested generation time (ISO 8601) */
+  attestedAt: string;
+  /** Attested origin host */
+  origin?: string;
+}
+
+/**
+ * W3C Verifiable Credential wrapping a proven inference
+ */
+export interface InferenceCredential {
+  /** JSON-LD contexts */
+  "@context": string[];
+  /** Credential types */
+  type: string[];
+  /** Credential id (urn:zkproof:<bundle hash>) */
+  id: string;
+  /** Operator that issued the credential */
+  issuer: string;
+  /** Issuance time (ISO 8601) */
+  validFrom: string;
+  /** The attested inference */
+  credentialSubject: InferenceClaimSubject;
+  /** The zkTLS proof, as a proof bundle */
+  evidence: {
+    /** Evidence types */
+    type: string[];
+    /** The embedded proof bundle */
+    bundle: ProofBundle;
+  }[];
+}
+
+/**
+ * Result of verifying a credential or attestation JWS
+ */
+export interface CredentialVerificationResult {
+  /** Whether the signature, subject and embedded proof all verify */
+  isValid: boolean;
+  /** Whether the operator's signature is valid */
+  signatureValid: boolean;
+  /** Whether the claim subject matches the embedded proof */
+  subjectValid: boolean;
+  /** Issuer named in the credential */
+  issuer?: string;
+  /** The attested inference */
+  subject?: InferenceClaimSubject;
+  /** Verification of the embedded zkTLS proof */
+  proof?: VerificationResult;
+  /** Error message if verification failed */
+  error?: string;
+}
+
+/**
+ * Preimage of a private prompt's commitment
+ */
+export interface PromptReveal {
+  /** Random salt (hex), so short prompts cannot be guessed from the hash */
+  salt: string;
+  /** System prompt exactly as sent, if any */
+  system?: unknown;
+  /** Messages exactly as sent */
+  messages: unknown[];
+}
+
+/**
+ * Result of checking a revealed prompt against a proof
+ */
+export interface PromptRevealResult {
+  /** Whether the reveal matches the proof's commitment and request */
+  isValid: boolean;
+  /** Commitment signed into the proof */
+  commitment?: string;
+  /** Error message if the reveal does not match */
+  error?: string;
+}
+
+/**
+ * One generation in a batch
+ */
+export interface BatchJob extends ClaudeGenerateOptions {
+  /**
+   * Stable job id, used to resume a batch (default: hash of the options,
+   * so identical jobs share one proof)
+   */
+  id?: string;
+}
+
+/**
+ * Outcome of one batch job
+ */
+export interface BatchJobResult {
+  /** Job id */
+  id: string;
+  /** Whether a proof was obtained */
+  status: "done" | "failed";
+  /** The proof, for completed jobs */
+  proof?: SerializedClaudeProof;
+  /** The full result, for jobs generated in this run (not resumed ones) */
+  result?: VerifiableClaudeResult;
+  /** Whether the proof was loaded from a previous run's state */
+  resumed: boolean;
+  /** Generation attempts made in this run */
+  attempts: number;
+  /** Last error message, for failed jobs */
+  error?: string;
+  /** Last error code, for failed jobs */
+  errorCode?: GenerationErrorCode;
+  /** Prompt reveal, for completed `privatePrompt` jobs */
+  promptReveal?: PromptReveal;
+  /**
+   * Why the outcome could not be written to the state file; a completed
+   * job will then be generated again when the batch is resumed
+   */
+  stateError?: string;
+}
+
+/**
+ * Outcome of a batch, with jobs in input order
+ */
+export interface BatchResult {
+  /** Every job's outcome */
+  jobs: BatchJobResult[];
+  /** Jobs with a proof (including resumed ones) */
+  succeeded: number;
+  /** Jobs that ran out of retries */
+  failed: number;
+  /** Jobs whose proof was loaded from a previous run */
+  resumed: number;
+}
+
+/**
+ * Progress event emitted while a batch runs
+ */
+export interface BatchProgressEvent {
+  /** What happened */
+  type: "started" | "retrying" | "rate_limited" | "done" | "failed";
+  /** Job id */
+  jobId: string;
+  /** Attempt number (1-based) */
+  attempt: number;
+  /** Jobs finished so far, including resumed ones */
+  completed: number;
+  /** Jobs in the batch */
+  total: number;
+  /** Delay before the next attempt in ms, for retries */
+  delayMs?: number;
+  /** Error message, for retries and failures */
+  error?: string;
+}
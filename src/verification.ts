@@ -0,0 +1,410 @@
+import { verifyProof, Proof } from "@reclaimprotocol/js-sdk";
+import type {
+  AttestedOrigin,
+  ProvenRequest,
+  ResponseContentBlock,
+  ClaudeResponseBody,
+  FieldMismatch,
+  VerificationMismatches,
+  VerificationFailure,
+  VerificationFailureCode,
+  VerificationResult,
+  VerifyOptions,
+  ResponseParser,
+} from "./types.js";
+import { evaluatePolicy } from "./policy.js";
+import { isSseTranscript, reconstructStreamedMessage } from "./stream.js";
+import { buildDisclosedResponse, readDisclosedFields } from "./disclosure.js";
+import { RESPONSE_PARAM } from "./matching.js";
+import { ResponseParseError } from "./errors.js";
+import { hasConsistentIdentifier, hasManualWitness } from "./claim.js";
+
+/**
+ * Hosts accepted as proof origin when no allowlist is given
+ */
+export const DEFAULT_ALLOWED_HOSTS = ["api.anthropic.com"];
+
+/**
+ * Version of the verification rules, recorded with cached results.
+ * Bump whenever a change could turn a past outcome around.
+ */
+export const VERIFIER_VERSION = "8";
+
+/**
+ * Public parameters of an http claim, as signed by the witnesses
+ */
+export interface ClaimParameters {
+  url: string;
+  method: string;
+  body?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * The values a result claims, to be checked against its proof
+ */
+export interface ExpectedClaim {
+  text: string;
+  model: string;
+  content?: ResponseContentBlock[];
+  messageId?: string;
+  request?: ProvenRequest;
+  timestamp?: number;
+  origin?: string;
+}
+
+/**
+ * Parse the signed `claimData.parameters` of a proof
+ */
+export function parseClaimParameters(proof: Proof): ClaimParameters {
+  const parameters = JSON.parse(proof.claimData.parameters);
+  if (
+    typeof parameters?.url !== "string" ||
+    typeof parameters?.method !== "string"
+  ) {
+    throw new Error("Proof claim parameters are missing url or method");
+  }
+  return parameters as ClaimParameters;
+}
+
+/**
+ * Extract the witness-signed URL, method and claim time from a proof
+ */
+export function getAttestedOrigin(proof: Proof): AttestedOrigin {
+  const parameters = parseClaimParameters(proof);
+  return {
+    url: parameters.url,
+    host: new URL(parameters.url).host,
+    method: parameters.method,
+    timestampS: proof.claimData.timestampS,
+  };
+}
+
+/**
+ * Extracted parameters as signed by the witnesses in `claimData.context`
+ *
+ * `extractedParameterValues` is a convenience copy outside the signed
+ * claim, so it must agree with the signed context to be trusted.
+ */
+export function getSignedExtractedParameters(
+  proof: Proof
+): Record<string, string> {
+  const context = proof.claimData.context
+    ? JSON.parse(proof.claimData.context)
+    : {};
+  const signed: Record<string, string> = context.extractedParameters ?? {};
+
+  for (const [name, value] of Object.entries(
+    proof.extractedParameterValues ?? {}
+  )) {
+    if (signed[name] !== value) {
+      throw new Error(
+        `Extracted parameter '${name}' does not match the signed claim`
+      );
+    }
+  }
+  return signed;
+}
+
+/**
+ * Response fields disclosed by a proof made with `disclose`
+ *
+ * @returns Field values by path, or undefined if the whole response is public
+ */
+export function getDisclosedFields(
+  proof: Proof
+): Record<string, unknown> | undefined {
+  return readDisclosedFields(
+    parseClaimParameters(proof),
+    getSignedExtractedParameters(proof)
+  );
+}
+
+/**
+ * Parse the proven Anthropic response out of the signed claim context
+ *
+ * Streamed responses are rebuilt from the proven SSE transcript. With
+ * selective disclosure, only the disclosed fields are present.
+ */
+export function parseProvenResponse(proof: Proof): Record<string, unknown> {
+  const responseJson = getSignedExtractedParameters(proof)[RESPONSE_PARAM];
+  if (!responseJson) {
+    const disclosed = getDisclosedFields(proof);
+    if (disclosed) {
+      return buildDisclosedResponse(disclosed);
+    }
+    throw new ResponseParseError("Failed to extract response from proof");
+  }
+  if (isSseTranscript(responseJson)) {
+    return reconstructStreamedMessage(responseJson);
+  }
+  let response: unknown;
+  try {
+    response = JSON.parse(responseJson);
+  } catch (error) {
+    throw new ResponseParseError("Proven response is not valid JSON", error);
+  }
+  if (typeof response !== "object" || response === null || Array.isArray(response)) {
+    throw new ResponseParseError("Proven response is not a JSON object");
+  }
+  return response as Record<string, unknown>;
+}
+
+/**
+ * Parse the proven response of a Claude proof as a Messages API body
+ *
+ * See `parseProvenResponse()`. An error body is returned as it is; check
+ * it with `getAnthropicError()` first.
+ */
+export function parseProvenMessage(proof: Proof): ClaudeResponseBody {
+  return parseProvenResponse(proof) as ClaudeResponseBody;
+}
+
+/**
+ * Extract text from Claude's response format
+ *
+ * Multiple text blocks (e.g. around tool calls) are concatenated. A
+ * disclosed block may have its text without its type.
+ */
+export function extractText(response: Record<string, unknown>): string {
+  if (!Array.isArray(response.content)) {
+    return "";
+  }
+  return response.content
+    .filter(
+      (item: { type?: string; text?: unknown }) =>
+        item?.type === "text" ||
+        (item?.type === undefined && typeof item?.text === "string")
+    )
+    .map((item: { text?: string }) => item.text || "")
+    .join("");
+}
+
+/**
+ * Parse an Anthropic Messages API response
+ */
+export const parseAnthropicResponse: ResponseParser = (response) => {
+  const message = response as ClaudeResponseBody;
+  return {
+    text: extractText(message),
+    model: message.model,
+    id: message.id,
+    content: message.content,
+  };
+};
+
+function compare(
+  expected: string | number | undefined,
+  actual: string | number | undefined
+): FieldMismatch | undefined {
+  if (expected === undefined || expected === actual) {
+    return undefined;
+  }
+  return {
+    expected: String(expected),
+    actual: actual === undefined ? undefined : String(actual),
+  };
+}
+
+/**
+ * Check that the claimed text, model, message id and request are exactly
+ * what the proof attests. Returns only the checks that failed.
+ *
+ * With selective disclosure, the model is only checked if it was disclosed;
+ * the other fields are compared with what was disclosed.
+ *
+ * @param proof - The proof
+ * @param expected - The values the result claims
+ * @param parseResponse - Parser for the provider's response format
+ */
+export function checkContentBinding(
+  proof: Proof,
+  expected: ExpectedClaim,
+  parseResponse: ResponseParser = parseAnthropicResponse
+): VerificationMismatches {
+  const response = parseResponse(parseProvenResponse(proof));
+  const parameters = parseClaimParameters(proof);
+  const disclosed = getDisclosedFields(proof);
+
+  const checks: VerificationMismatches = {
+    text: compare(expected.text, response.text),
+    model:
+      disclosed && !("model" in disclosed)
+        ? undefined
+        : compare(expected.model, response.model),
+    messageId: compare(expected.messageId, response.id),
+    content: compare(
+      expected.content && JSON.stringify(expected.content),
+      JSON.stringify(response.content ?? (disclosed ? [] : undefined))
+    ),
+    url: compare(expected.request?.url, parameters.url),
+    method: compare(expected.request?.method, parameters.method),
+    requestBody: compare(expected.request?.body, parameters.body),
+    timestamp: compare(expected.timestamp, proof.claimData.timestampS * 1000),
+    origin: compare(expected.origin, new URL(parameters.url).host),
+  };
+
+  const mismatches: VerificationMismatches = {};
+  for (const [field, mismatch] of Object.entries(checks)) {
+    if (mismatch) {
+      mismatches[field as keyof VerificationMismatches] = mismatch;
+    }
+  }
+  return mismatches;
+}
+
+/**
+ * Result for a proof that failed before its signatures could be checked
+ *
+ * @param code - Failure code
+ * @param message - Human-readable description
+ */
+export function failedVerification(
+  code: VerificationFailureCode,
+  message: string
+): VerificationResult {
+  return {
+    isValid: false,
+    signatureValid: false,
+    mismatches: {},
+    originAllowed: false,
+    error: message,
+    failure: { code, message },
+  };
+}
+
+/**
+ * Verify the witness signatures on a proof, bind it to the claimed content,
+ * check that the attested host is allowed and evaluate any policy
+ *
+ * A proof whose signatures do not verify is rejected before anything in
+ * its claim is parsed.
+ *
+ * @param proof - The Reclaim proof
+ * @param expected - The values the result claims
+ * @param options - Verification options (host allowlist, policy, backend)
+ * @returns Detailed verification result
+ */
+export async function verifyClaudeProof(
+  proof: Proof,
+  expected: ExpectedClaim,
+  options: VerifyOptions = {}
+): Promise<VerificationResult> {
+  return verifyInferenceProof(proof, expected, options, parseAnthropicResponse);
+}
+
+/**
+ * Check the witness signatures on a proof
+ *
+ * The proof's identifiers must match its claim. With a backend, the
+ * backend checks the signatures; otherwise Reclaim's `verifyProof` does,
+ * and "manual-verify" witnesses are refused unless `allowManualVerify`
+ * is set, since the SDK then trusts whatever signer the proof names.
+ */
+async function verifySignatures(
+  proof: Proof,
+  options: VerifyOptions
+): Promise<boolean> {
+  if (!hasConsistentIdentifier(proof)) {
+    return false;
+  }
+  if (options.backend) {
+    return options.backend.verify(proof);
+  }
+  if (hasManualWitness(proof) && !options.allowManualVerify) {
+    return false;
+  }
+  return verifyProof(proof);
+}
+
+/**
+ * Verify a proof from any inference provider
+ *
+ * Same checks as `verifyClaudeProof()`, reading the proven response
+ * with the given provider's parser.
+ *
+ * @param proof - The Reclaim proof
+ * @param expected - The values the result claims
+ * @param options - Verification options (host allowlist, policy, backend)
+ * @param parseResponse - Parser for the provider's response format
+ * @returns Detailed verification result
+ */
+export async function verifyInferenceProof(
+  proof: Proof,
+  expected: ExpectedClaim,
+  options: VerifyOptions,
+  parseResponse: ResponseParser
+): Promise<VerificationResult> {
+  // Any key can sign for a manual witness, so only known signers will do
+  if (options.allowManualVerify && !options.policy?.allowedSigners) {
+    return failedVerification(
+      "verifier_error",
+      "allowManualVerify requires an allowedSigners policy"
+    );
+  }
+  const allowedHosts = options.allowedHosts ?? DEFAULT_ALLOWED_HOSTS;
+  let signatureValid = false;
+  let signatureChecked = false;
+  try {
+    signatureValid = await verifySignatures(proof, options);
+    signatureChecked = true;
+    // The claim content of an unsigned proof is not read at all
+    if (!signatureValid) {
+      return failedVerification("invalid_signature", "Invalid proof signature");
+    }
+    const attested = getAttestedOrigin(proof);
+    const originAllowed = allowedHosts.includes(attested.host);
+    const mismatches = checkContentBinding(proof, expected, parseResponse);
+    const policy = options.policy
+      ? evaluatePolicy(proof, options.policy, {
+          attested,
+          model: parseResponse(parseProvenResponse(proof)).model,
+          now: options.now,
+        })
+      : undefined;
+    const contentMatches = Object.keys(mismatches).length === 0;
+    const isValid = originAllowed && contentMatches && (policy?.satisfied ?? true);
+
+    let failure: VerificationFailure | undefined;
+    if (!originAllowed) {
+      failure = {
+        code: "origin_not_allowed",
+        message: `Proof origin ${attested.host} is not an allowed host`,
+      };
+    } else if (!contentMatches) {
+      const fields = Object.keys(mismatches);
+      failure = {
+        code: "content_mismatch",
+        message: `Proof does not match claimed ${fields.join(", ")}`,
+        fields,
+      };
+    } else if (policy && !policy.satisfied) {
+      const rules = policy.failed.map((r) => r.rule);
+      failure = {
+        code: "policy_violation",
+        message: `Proof violates policy: ${rules.join(", ")}`,
+        rules,
+      };
+    }
+
+    return {
+      isValid,
+      signatureValid,
+      mismatches,
+      originAllowed,
+      attested,
+      policy,
+      verifiedEndpoint: isValid ? attested.url : undefined,
+      error: failure?.message,
+      failure,
+    };
+  } catch (error) {
+    return {
+      ...failedVerification(
+        signatureChecked ? "malformed_proof" : "verifier_error",
+        error instanceof Error ? error.message : "Verification failed"
+      ),
+      signatureValid,
+    };
+  }
+}
@@ -0,0 +1,78 @@
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { WitnessError, readBatchState, verifyPromptReveal } from "../src/index.js";
+import { anthropicMessage, createTestClient } from "./helpers.js";
+
+function tempFile(name: string): string {
+  return path.join(mkdtempSync(path.join(tmpdir(), "zkproof-")), name);
+}
+
+describe("generateBatch", () => {
+  it("retries retryable failures and resumes from the state file", async () => {
+    let calls = 0;
+    const { client } = createTestClient({
+      respond: (request) => {
+        calls++;
+        if (calls === 1) {
+          throw new WitnessError("Attestor unavailable");
+        }
+        return anthropicMessage(request);
+      },
+    });
+    const statePath = tempFile("state.jsonl");
+    const jobs = [
+      { id: "a", prompt: "One" },
+      { id: "b", prompt: "Two" },
+    ];
+
+    const first = await client.generateBatch(jobs, {
+      statePath,
+      backoffMs: 0,
+      concurrency: 1,
+    });
+    expect(first.succeeded).toBe(2);
+    expect(first.jobs[0].attempts).toBe(2);
+    expect([...(await readBatchState(statePath)).keys()]).toEqual(["a", "b"]);
+
+    const second = await client.generateBatch(jobs, { statePath });
+    expect(second.resumed).toBe(2);
+    expect(calls).toBe(3);
+  });
+
+  it("keeps the proof when the state file cannot be written", async () => {
+    let calls = 0;
+    const { client } = createTestClient({
+      respond: (request) => {
+        calls++;
+        return anthropicMessage(request);
+      },
+    });
+    const statePath = path.join(tempFile("missing"), "state.jsonl");
+
+    const batch = await client.generateBatch(
+      [{ prompt: "One" }, { prompt: "Two" }],
+      { statePath }
+    );
+    expect(batch.succeeded).toBe(2);
+    expect(calls).toBe(2);
+    for (const job of batch.jobs) {
+      expect(job.proof).toBeDefined();
+      expect(job.stateError).toMatch(/Could not write batch state/);
+    }
+  });
+
+  it("records prompt reveals for resumed private jobs", async () => {
+    const { client } = createTestClient();
+    const statePath = tempFile("state.jsonl");
+    const jobs = [
+      { id: "private", prompt: "Ticket #4411 for Jane Doe", privatePrompt: true },
+    ];
+
+    await client.generateBatch(jobs, { statePath });
+    const [resumed] = (await client.generateBatch(jobs, { statePath })).jobs;
+    expect(resumed.resumed).toBe(true);
+    expect(verifyPromptReveal(resumed.proof!, resumed.promptReveal!).isValid).toBe(true);
+  });
+});
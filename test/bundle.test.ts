@@ -0,0 +1,82 @@
+import { deflateRawSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import {
+  BUNDLE_STRING_PREFIX,
+  createProofBundle,
+  decodeBundleCbor,
+  decodeBundleString,
+  decodeCbor,
+  encodeBundleCbor,
+  encodeBundleJson,
+  encodeBundleString,
+  encodeCbor,
+  parseProofBundle,
+  verifyProofBundle,
+} from "../src/index.js";
+import { createTestClient } from "./helpers.js";
+
+async function createBundle() {
+  const { backend, client } = createTestClient();
+  const result = await client.generate({ prompt: "Capital of France?" });
+  return { backend, bundle: createProofBundle(client.serializeResult(result)) };
+}
+
+describe("proof bundles", () => {
+  it("round-trip through JSON, CBOR and the string form and still verify", async () => {
+    const { backend, bundle } = await createBundle();
+
+    for (const decoded of [
+      parseProofBundle(encodeBundleJson(bundle)),
+      decodeBundleCbor(encodeBundleCbor(bundle)),
+      decodeBundleString(encodeBundleString(bundle)),
+    ]) {
+      expect(decoded).toEqual(bundle);
+      expect((await verifyProofBundle(decoded, { backend })).isValid).toBe(true);
+    }
+  });
+
+  it("fail verification when their text is edited", async () => {
+    const { backend, bundle } = await createBundle();
+    const verification = await verifyProofBundle(
+      { ...bundle, text: "The capital of France is London." },
+      { backend }
+    );
+    expect(verification.failure?.code).toBe("content_mismatch");
+  });
+
+  it("report unparsable input as a malformed proof", async () => {
+    const verification = await verifyProofBundle({ version: 99 });
+    expect(verification.failure?.code).toBe("malformed_proof");
+  });
+
+  it("refuse strings that inflate past the size cap", () => {
+    const bomb =
+      BUNDLE_STRING_PREFIX +
+      deflateRawSync(Buffer.alloc(4 * 1024 * 1024)).toString("base64url");
+    expect(() => decodeBundleString(bomb, 1024 * 1024)).toThrow(/exceeds/);
+  });
+});
+
+describe("CBOR", () => {
+  it("encodes deterministically", () => {
+    const a = encodeCbor({ b: 1, a: [true, null, "x", -2.5] });
+    const b = encodeCbor({ a: [true, null, "x", -2.5], b: 1 });
+    expect(Buffer.from(a).equals(Buffer.from(b))).toBe(true);
+    expect(decodeCbor(a)).toEqual({ a: [true, null, "x", -2.5], b: 1 });
+  });
+
+  it("rejects a __proto__ map key", () => {
+    // {"__proto__": {"polluted": true}}
+    const bytes = Uint8Array.from([
+      0xa1,
+      0x69,
+      ...Buffer.from("__proto__"),
+      0xa1,
+      0x68,
+      ...Buffer.from("polluted"),
+      0xf5,
+    ]);
+    expect(() => decodeCbor(bytes)).toThrow(/__proto__/);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+});
@@ -0,0 +1,93 @@
+import { mkdtemp, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { runCli } from "../src/cli.js";
+import { decodeOnchainProof, toOnchainProof } from "../src/index.js";
+import { createTestClient } from "./helpers.js";
+
+let stdout: string;
+let stderr: string;
+
+beforeEach(() => {
+  stdout = stderr = "";
+  vi.spyOn(process.stdout, "write").mockImplementation((chunk) => {
+    stdout += String(chunk);
+    return true;
+  });
+  vi.spyOn(process.stderr, "write").mockImplementation((chunk) => {
+    stderr += String(chunk);
+    return true;
+  });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+async function writeProof() {
+  const { client } = createTestClient();
+  const result = await client.generate({ prompt: "Capital of France?" });
+  const serialized = client.serializeResult(result);
+  const dir = await mkdtemp(path.join(tmpdir(), "zkproof-cli-"));
+  const file = path.join(dir, "proof.json");
+  await writeFile(file, JSON.stringify(serialized));
+  return { dir, file, result, serialized };
+}
+
+describe("zkproof CLI", () => {
+  it("prints usage, and fails without a command", async () => {
+    expect(await runCli(["--help"])).toBe(0);
+    expect(stdout).toContain("Usage: zkproof <command>");
+    expect(await runCli([])).toBe(2);
+    expect(await runCli(["prove"])).toBe(2);
+    expect(stderr).toContain("unknown command 'prove'");
+  });
+
+  it("rejects counts that are not positive integers", async () => {
+    for (const args of [
+      ["verify", "--min-signatures", "0"],
+      ["verify", "--min-signatures", "1.5"],
+      ["generate", "--max-tokens", "0", "Hi"],
+    ]) {
+      stderr = "";
+      expect(await runCli(args)).toBe(2);
+      expect(stderr).toContain("must be a positive integer");
+    }
+  });
+
+  it("inspects a proof", async () => {
+    const { file, serialized } = await writeProof();
+
+    expect(await runCli(["inspect", file, "--json"])).toBe(0);
+    const info = JSON.parse(stdout);
+    expect(info.identifier).toBe(JSON.parse(serialized.proofJson).identifier);
+    expect(info.attested.host).toBe("api.anthropic.com");
+    expect(info.inference.text).toBe(serialized.text);
+  });
+
+  it("exports a proof to the string form and to calldata", async () => {
+    const { dir, file, result } = await writeProof();
+    const out = path.join(dir, "proof.zkp");
+
+    expect(await runCli(["export", file, "--to", "string", "--out", out])).toBe(0);
+    stdout = "";
+    expect(await runCli(["inspect", out, "--json"])).toBe(0);
+    expect(JSON.parse(stdout).identifier).toBe(result.proof.identifier);
+
+    stdout = "";
+    expect(await runCli(["export", file, "--to", "calldata"])).toBe(0);
+    expect(decodeOnchainProof(stdout.trim())).toEqual(toOnchainProof(result));
+  });
+
+  it("exits with 1 for an invalid proof", async () => {
+    const { file, serialized } = await writeProof();
+    const proof = JSON.parse(serialized.proofJson);
+    proof.identifier = `0x${"0".repeat(64)}`;
+    const forged = { ...serialized, proofJson: JSON.stringify(proof) };
+    await writeFile(file, JSON.stringify(forged));
+
+    expect(await runCli(["verify", file, "--json"])).toBe(1);
+    expect(JSON.parse(stdout).isValid).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+  VerifiableAgent,
+  VerifiableConversation,
+  type AgentTool,
+} from "../src/index.js";
+import { anthropicMessage, createTestClient } from "./helpers.js";
+
+/** Replies with the number of messages it was sent */
+function countingClient() {
+  return createTestClient({
+    respond: (request) => {
+      const count = JSON.parse(request.body).messages.length;
+      return anthropicMessage(request, {
+        id: `msg_${count}`,
+        content: [{ type: "text", text: `Reply to ${count} messages` }],
+      });
+    },
+  });
+}
+
+describe("VerifiableConversation", () => {
+  const converse = async () => {
+    const { backend, client } = countingClient();
+    const conversation = new VerifiableConversation(client);
+    await conversation.send("My name is Alice.");
+    await conversation.send("What is my name?");
+    await conversation.send("Thanks.");
+    return { backend, transcript: conversation.exportTranscript() };
+  };
+
+  it("verifies a chained transcript", async () => {
+    const { backend, transcript } = await converse();
+    const verification = await VerifiableConversation.verifyTranscript(transcript, {
+      backend,
+    });
+    expect(verification.isValid).toBe(true);
+    expect(verification.turns).toHaveLength(3);
+  });
+
+  it("rejects dropped and reordered turns", async () => {
+    const { backend, transcript } = await converse();
+    const [first, second, third] = transcript.turns;
+
+    for (const turns of [[first, third], [second, first, third]]) {
+      const verification = await VerifiableConversation.verifyTranscript(
+        { turns },
+        { backend }
+      );
+      expect(verification.isValid).toBe(false);
+      expect(verification.brokenLinks.length).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe("VerifiableAgent", () => {
+  const tools: AgentTool[] = [
+    {
+      name: "get_price",
+      input_schema: { type: "object" },
+      run: async () => "42",
+    },
+  ];
+
+  const runAgent = async () => {
+    const { backend, client } = createTestClient({
+      respond: (request) => {
+        const messages = JSON.parse(request.body).messages;
+        return messages.length === 1
+          ? anthropicMessage(request, {
+              content: [
+                {
+                  type: "tool_use",
+                  id: "toolu_01",
+                  name: "get_price",
+                  input: { ticker: "ACME" },
+                },
+              ],
+              stop_reason: "tool_use",
+            })
+          : anthropicMessage(request, { content: [{ type: "text", text: "Hold." }] });
+      },
+    });
+    const run = await new VerifiableAgent(client, tools).run("Should we buy ACME?");
+    return { backend, run };
+  };
+
+  it("runs tools and verifies the trace", async () => {
+    const { backend, run } = await runAgent();
+    expect(run.text).toBe("Hold.");
+    expect(run.trace.actions).toHaveLength(1);
+
+    const verification = await VerifiableAgent.verifyTrace(run.trace, { backend });
+    expect(verification.isValid).toBe(true);
+  });
+
+  it("rejects actions that no proven turn asked for", async () => {
+    const { backend, run } = await runAgent();
+    const trace = structuredClone(run.trace);
+    trace.actions[0].toolUse.input = { ticker: "EVIL" };
+
+    const verification = await VerifiableAgent.verifyTrace(trace, { backend });
+    expect(verification.isValid).toBe(false);
+    expect(verification.untracedActions).toHaveLength(1);
+  });
+});
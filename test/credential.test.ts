@@ -0,0 +1,104 @@
+import { generateKeyPairSync, sign } from "crypto";
+import { describe, expect, it } from "vitest";
+import {
+  createInferenceCredential,
+  issueAttestation,
+  issueCredential,
+  verifyCredential,
+} from "../src/index.js";
+import { createTestClient } from "./helpers.js";
+
+const ISSUER = "did:web:ai.example.com";
+
+async function setup() {
+  const { backend, client } = createTestClient();
+  const result = await client.generate({ prompt: "Capital of France?" });
+  const proof = client.serializeResult(result);
+  return { backend, proof, keys: generateKeyPairSync("ed25519") };
+}
+
+describe("verifyCredential", () => {
+  it("verifies a credential and reports what it attests", async () => {
+    const { backend, proof, keys } = await setup();
+    const jws = issueCredential(proof, { issuer: ISSUER, privateKey: keys.privateKey });
+    const result = await verifyCredential(jws, {
+      publicKey: keys.publicKey,
+      issuer: ISSUER,
+      backend,
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(result.subject).toMatchObject({ model: proof.model });
+    expect(result.subject?.responseHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("verifies attestations signed with P-256 and RSA keys", async () => {
+    const { backend, proof } = await setup();
+    const keyPairs = [
+      generateKeyPairSync("ec", { namedCurve: "prime256v1" }),
+      generateKeyPairSync("rsa", { modulusLength: 2048 }),
+    ];
+    for (const { privateKey, publicKey } of keyPairs) {
+      const jws = issueAttestation(proof, { issuer: ISSUER, privateKey, keyId: "k1" });
+      const pem = publicKey.export({ type: "spki", format: "pem" }).toString();
+      const result = await verifyCredential(jws, { publicKey: pem, backend });
+      expect(result.isValid).toBe(true);
+    }
+  });
+
+  it("rejects another key, another issuer and an edited payload", async () => {
+    const { backend, proof, keys } = await setup();
+    const jws = issueCredential(proof, { issuer: ISSUER, privateKey: keys.privateKey });
+
+    const otherKey = generateKeyPairSync("ed25519").publicKey;
+    const wrongKey = await verifyCredential(jws, { publicKey: otherKey, backend });
+    expect(wrongKey.signatureValid).toBe(false);
+
+    const wrongIssuer = await verifyCredential(jws, {
+      publicKey: keys.publicKey,
+      issuer: "did:web:other.example.com",
+      backend,
+    });
+    expect(wrongIssuer.isValid).toBe(false);
+    expect(wrongIssuer.error).toContain("is not 'did:web:other.example.com'");
+
+    const [header, payload, signature] = jws.split(".");
+    const edited = JSON.parse(Buffer.from(payload, "base64url").toString("utf-8"));
+    edited.credentialSubject.model = "claude-3-opus-20240229";
+    const forged = Buffer.from(JSON.stringify(edited)).toString("base64url");
+    const result = await verifyCredential(`${header}.${forged}.${signature}`, {
+      publicKey: keys.publicKey,
+      backend,
+    });
+    expect(result.signatureValid).toBe(false);
+  });
+
+  it("rejects a signed subject that does not describe its evidence", async () => {
+    const { backend, proof, keys } = await setup();
+    const credential = createInferenceCredential(proof, ISSUER);
+    credential.credentialSubject.responseHash = "00".repeat(32);
+    // Signed by the operator, so only the subject check can catch it
+    const signingInput = [{ alg: "EdDSA", typ: "vc+jwt" }, credential]
+      .map((part) => Buffer.from(JSON.stringify(part)).toString("base64url"))
+      .join(".");
+    const signature = sign(null, Buffer.from(signingInput), keys.privateKey);
+    const jws = `${signingInput}.${signature.toString("base64url")}`;
+
+    const result = await verifyCredential(jws, { publicKey: keys.publicKey, backend });
+    expect(result.signatureValid).toBe(true);
+    expect(result.subjectValid).toBe(false);
+    expect(result.isValid).toBe(false);
+  });
+
+  it("rejects a credential whose embedded proof does not verify", async () => {
+    const { proof, keys } = await setup();
+    const jws = issueCredential(proof, { issuer: ISSUER, privateKey: keys.privateKey });
+    // A backend with another key does not trust the proof's witness
+    const { backend } = createTestClient();
+
+    const result = await verifyCredential(jws, { publicKey: keys.publicKey, backend });
+    expect(result.subjectValid).toBe(true);
+    expect(result.proof?.isValid).toBe(false);
+    expect(result.isValid).toBe(false);
+  });
+});
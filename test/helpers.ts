@@ -0,0 +1,46 @@
+import type { Proof } from "@reclaimprotocol/js-sdk";
+import {
+  LocalProofBackend,
+  createVerifiableClaude,
+  type LocalProofBackendOptions,
+  type ProofRequest,
+} from "../src/index.js";
+
+/**
+ * Anthropic message body answering a proven request
+ */
+export function anthropicMessage(
+  request: ProofRequest,
+  overrides: Record<string, unknown> = {}
+): string {
+  return JSON.stringify({
+    id: "msg_01TEST",
+    type: "message",
+    role: "assistant",
+    model: JSON.parse(request.body).model,
+    content: [{ type: "text", text: "The capital of France is Paris." }],
+    stop_reason: "end_turn",
+    stop_sequence: null,
+    usage: { input_tokens: 12, output_tokens: 8 },
+    ...overrides,
+  });
+}
+
+/**
+ * A client whose proofs are signed by a local witness key
+ */
+export function createTestClient(options: LocalProofBackendOptions = {}) {
+  const backend = new LocalProofBackend({
+    respond: (request) => anthropicMessage(request),
+    ...options,
+  });
+  const client = createVerifiableClaude({ apiKey: "test-key", backend });
+  return { backend, client };
+}
+
+/**
+ * Copy of a proof with its JSON re-parsed, safe to tamper with
+ */
+export function cloneProof(proof: Proof): Proof {
+  return JSON.parse(JSON.stringify(proof));
+}
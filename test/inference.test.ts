@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import {
+  AnthropicApiError,
+  LocalProofBackend,
+  VerifiableInference,
+  anthropicProvider,
+  openAICompatibleProvider,
+  openAIProvider,
+  type ProofRequest,
+} from "../src/index.js";
+
+function chatCompletion(request: ProofRequest): string {
+  return JSON.stringify({
+    id: "chatcmpl-01",
+    object: "chat.completion",
+    model: JSON.parse(request.body).model,
+    choices: [
+      {
+        index: 0,
+        message: { role: "assistant", content: "Paris." },
+        finish_reason: "stop",
+      },
+    ],
+  });
+}
+
+function createOpenAIClient(provider = openAIProvider()) {
+  const backend = new LocalProofBackend({ respond: chatCompletion });
+  const client = new VerifiableInference({ provider, apiKey: "sk-test", backend });
+  return { backend, client };
+}
+
+describe("VerifiableInference", () => {
+  it("proves an OpenAI chat completion without revealing the key", async () => {
+    const { backend, client } = createOpenAIClient();
+    const result = await client.generate({
+      model: "gpt-4o",
+      system: "Answer briefly.",
+      prompt: "Capital of France?",
+    });
+
+    expect(result).toMatchObject({
+      text: "Paris.",
+      model: "gpt-4o",
+      messageId: "chatcmpl-01",
+      inferenceProvider: "openai",
+      origin: "api.openai.com",
+    });
+    expect(JSON.parse(result.request.body).messages[0]).toEqual({
+      role: "system",
+      content: "Answer briefly.",
+    });
+    const serialized = client.serializeResult(result);
+    expect(serialized.proofJson).not.toContain("sk-test");
+
+    const verification = await VerifiableInference.verifySerializedProof(serialized, {
+      backend,
+    });
+    expect(verification.isValid).toBe(true);
+  });
+
+  it("checks the claimed text and the provider's host", async () => {
+    const { backend, client } = createOpenAIClient();
+    const serialized = client.serializeResult(
+      await client.generate({ model: "gpt-4o", prompt: "Capital of France?" })
+    );
+
+    const edited = await VerifiableInference.verifySerializedProof(
+      { ...serialized, text: "Lyon." },
+      { backend }
+    );
+    expect(edited.failure?.code).toBe("content_mismatch");
+
+    // An OpenAI proof is not an OpenRouter proof
+    const relabeled = await VerifiableInference.verifySerializedProof(
+      { ...serialized, inferenceProvider: "openrouter" },
+      { backend }
+    );
+    expect(relabeled.failure?.code).toBe("origin_not_allowed");
+  });
+
+  it("verifies custom providers only when their adapter is given", async () => {
+    const vllm = openAICompatibleProvider("vllm", "https://llm.example.com/v1");
+    const { backend, client } = createOpenAIClient(vllm);
+    const serialized = client.serializeResult(
+      await client.generate({ model: "llama-3", prompt: "Capital of France?" })
+    );
+
+    const unknown = await VerifiableInference.verifySerializedProof(serialized, {
+      backend,
+    });
+    expect(unknown.failure?.code).toBe("unknown_provider");
+    const known = await VerifiableInference.verifySerializedProof(serialized, {
+      backend,
+      providers: [vllm],
+    });
+    expect(known.isValid).toBe(true);
+  });
+
+  it("raises proven Anthropic error bodies as AnthropicApiError", async () => {
+    const backend = new LocalProofBackend({
+      respond: () =>
+        JSON.stringify({
+          type: "error",
+          error: { type: "authentication_error", message: "invalid x-api-key" },
+        }),
+    });
+    const client = new VerifiableInference({
+      provider: anthropicProvider(),
+      apiKey: "bad-key",
+      backend,
+    });
+
+    const generating = client.generate({
+      model: "claude-3-5-haiku-20241022",
+      prompt: "Hi",
+    });
+    await expect(generating).rejects.toBeInstanceOf(AnthropicApiError);
+    await expect(generating).rejects.toMatchObject({ code: "api_authentication" });
+  });
+});
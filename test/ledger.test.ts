@@ -0,0 +1,92 @@
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import {
+  JsonlAuditLog,
+  LEDGER_GENESIS_HASH,
+  MemoryAuditLog,
+  verifyLedger,
+} from "../src/index.js";
+import { createTestClient } from "./helpers.js";
+
+async function createLedger(count = 3) {
+  const { backend, client } = createTestClient();
+  const log = new MemoryAuditLog();
+  for (let i = 0; i < count; i++) {
+    const result = await client.generate({ prompt: `Question ${i}` });
+    await log.append(client.serializeResult(result));
+  }
+  return { backend, entries: await log.entries() };
+}
+
+describe("verifyLedger", () => {
+  it("accepts an intact chain and reports its head", async () => {
+    const { backend, entries } = await createLedger();
+    const result = await verifyLedger(entries, { backend });
+
+    expect(result).toEqual({
+      isValid: true,
+      entryCount: 3,
+      headHash: entries[2].hash,
+    });
+    expect(entries[0].previousHash).toBe(LEDGER_GENESIS_HASH);
+    expect(entries[2].previousHash).toBe(entries[1].hash);
+  });
+
+  it("finds modified, deleted and reordered entries", async () => {
+    const { backend, entries } = await createLedger();
+    const check = async (tampered: typeof entries) =>
+      (await verifyLedger(tampered, { backend, verifyProofs: false })).firstBreak;
+
+    const modified = entries.map((entry) => ({ ...entry }));
+    modified[1].timestamp += 1;
+    expect(await check(modified)).toMatchObject({ index: 1, type: "modified" });
+
+    expect(await check([entries[0], entries[2]])).toMatchObject({
+      index: 1,
+      type: "deleted",
+      detail: "Entry 1 is missing before entry 1",
+    });
+    expect(await check([entries[0], entries[2], entries[1]])).toMatchObject({
+      index: 1,
+      type: "reordered",
+    });
+  });
+
+  it("detects entries dropped from the end only against a known head", async () => {
+    const { backend, entries } = await createLedger();
+    const truncated = entries.slice(0, 2);
+
+    expect((await verifyLedger(truncated, { backend })).isValid).toBe(true);
+    const result = await verifyLedger(truncated, {
+      backend,
+      expectedHeadHash: entries[2].hash,
+    });
+    expect(result.firstBreak).toMatchObject({ index: 2, type: "deleted" });
+  });
+
+  it("rejects an entry whose proof no longer verifies", async () => {
+    const { entries } = await createLedger(1);
+    // A backend with another key does not trust the ledger's witness
+    const { backend } = createTestClient();
+    const result = await verifyLedger(entries, { backend });
+    expect(result.firstBreak).toMatchObject({ index: 0, type: "invalid_proof" });
+  });
+
+  it("keeps one chain across concurrent appends to a JSON Lines log", async () => {
+    const { backend, client } = createTestClient();
+    const file = path.join(mkdtempSync(path.join(tmpdir(), "zkproof-")), "audit.jsonl");
+    const log = new JsonlAuditLog(file);
+    const results = await Promise.all(
+      ["a", "b", "c"].map((prompt) => client.generate({ prompt }))
+    );
+    await Promise.all(
+      results.map((result) => log.append(client.serializeResult(result)))
+    );
+
+    const reloaded = await new JsonlAuditLog(file).entries();
+    expect(reloaded.map((entry) => entry.sequence)).toEqual([0, 1, 2]);
+    expect((await verifyLedger(reloaded, { backend })).isValid).toBe(true);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildMerkleBatch,
+  hashMerkleLeaf,
+  verifyBatchedProof,
+  verifyInclusion,
+} from "../src/index.js";
+import { createTestClient } from "./helpers.js";
+
+async function createBatch(count: number) {
+  const { backend, client } = createTestClient();
+  const proofs = [];
+  for (let i = 0; i < count; i++) {
+    const result = await client.generate({ prompt: `Question ${i}` });
+    proofs.push(client.serializeResult(result));
+  }
+  return { backend, proofs, batch: buildMerkleBatch(proofs) };
+}
+
+describe("Merkle batches", () => {
+  it("proves every leaf of an odd-sized batch under the root", async () => {
+    const { proofs, batch } = await createBatch(5);
+
+    proofs.forEach((proof, index) => {
+      expect(verifyInclusion(proof, batch.inclusionProofs[index], batch.root)).toBe(true);
+    });
+    // The unpaired fifth leaf is carried up, so its path is short
+    expect(batch.inclusionProofs[4].path).toHaveLength(1);
+    expect(verifyInclusion(proofs[0], batch.inclusionProofs[0], `0x${batch.root}`))
+      .toBe(true);
+  });
+
+  it("uses the leaf hash as the root of a single proof", async () => {
+    const { batch } = await createBatch(1);
+    expect(batch.root).toBe(hashMerkleLeaf(batch.proofIds[0]));
+    expect(batch.inclusionProofs[0].path).toEqual([]);
+  });
+
+  it("rejects a proof paired with another leaf's inclusion proof", async () => {
+    const { proofs, batch } = await createBatch(3);
+    expect(verifyInclusion(proofs[0], batch.inclusionProofs[1], batch.root)).toBe(false);
+
+    const moved = { ...batch.inclusionProofs[1], proofId: batch.proofIds[0] };
+    expect(verifyInclusion(proofs[0], moved, batch.root)).toBe(false);
+  });
+
+  it("refuses to build an empty batch", () => {
+    expect(() => buildMerkleBatch([])).toThrow("zero proofs");
+  });
+});
+
+describe("verifyBatchedProof", () => {
+  it("verifies the proof and its inclusion", async () => {
+    const { backend, proofs, batch } = await createBatch(2);
+    const result = await verifyBatchedProof(
+      proofs[1],
+      batch.inclusionProofs[1],
+      batch.root,
+      { backend }
+    );
+    expect(result.isValid).toBe(true);
+  });
+
+  it("reports not_in_batch against another root", async () => {
+    const { backend, proofs, batch } = await createBatch(2);
+    const other = await createBatch(2);
+    const result = await verifyBatchedProof(
+      proofs[0],
+      batch.inclusionProofs[0],
+      other.batch.root,
+      { backend }
+    );
+    expect(result.isValid).toBe(false);
+    expect(result.failure?.code).toBe("not_in_batch");
+    expect(result.verifiedEndpoint).toBeUndefined();
+  });
+});
@@ -0,0 +1,74 @@
+import { ethers } from "ethers";
+import { describe, expect, it } from "vitest";
+import {
+  decodeOnchainProof,
+  encodeOnchainProof,
+  getClaimIdentifier,
+  getClaimSignData,
+  toOnchainProof,
+  verifyOnchainProof,
+} from "../src/index.js";
+import { createTestClient } from "./helpers.js";
+
+async function createOnchainProof() {
+  const { backend, client } = createTestClient();
+  const result = await client.generate({ prompt: "Capital of France?" });
+  return { backend, result, ...encodeOnchainProof(client.serializeResult(result)) };
+}
+
+describe("on-chain proofs", () => {
+  it("decode from calldata and from the encoded tuple", async () => {
+    const { result, proof, calldata, encoded } = await createOnchainProof();
+
+    expect(proof).toEqual(toOnchainProof(result));
+    expect(decodeOnchainProof(calldata)).toEqual(proof);
+    expect(decodeOnchainProof(encoded)).toEqual(proof);
+  });
+
+  it("verify only against the trusted witnesses", async () => {
+    const { backend, calldata } = await createOnchainProof();
+
+    expect(verifyOnchainProof(calldata, [backend.witnessAddress])).toEqual({
+      isValid: true,
+      identifierValid: true,
+      signers: [backend.witnessAddress],
+    });
+    const stranger = ethers.Wallet.createRandom().address;
+    const untrusted = verifyOnchainProof(calldata, [stranger]);
+    expect(untrusted.isValid).toBe(false);
+    expect(untrusted.signers).toEqual([backend.witnessAddress]);
+  });
+
+  it("reject a self-signed claim", async () => {
+    const { backend, proof } = await createOnchainProof();
+
+    // A consistent identifier, signed by a key nobody trusts
+    const attacker = ethers.Wallet.createRandom();
+    const forged = structuredClone(proof);
+    forged.claimInfo.context = JSON.stringify({
+      extractedParameters: { response: "{}" },
+    });
+    const claim = { ...forged.claimInfo, ...forged.signedClaim.claim };
+    forged.signedClaim.claim.identifier = getClaimIdentifier(claim);
+    forged.signedClaim.signatures = [
+      await attacker.signMessage(
+        getClaimSignData({ ...claim, identifier: forged.signedClaim.claim.identifier })
+      ),
+    ];
+
+    const verification = verifyOnchainProof(forged, [backend.witnessAddress]);
+    expect(verification).toMatchObject({ isValid: false, identifierValid: true });
+    expect(verification.signers).toEqual([attacker.address.toLowerCase()]);
+  });
+
+  it("reject a claim edited after signing", async () => {
+    const { backend, proof } = await createOnchainProof();
+    const edited = structuredClone(proof);
+    edited.claimInfo.parameters = edited.claimInfo.parameters.replace("France", "Spain");
+
+    expect(verifyOnchainProof(edited, [backend.witnessAddress])).toMatchObject({
+      isValid: false,
+      identifierValid: false,
+    });
+  });
+});
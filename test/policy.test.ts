@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import {
+  TEE_ATTESTOR_URLS,
+  getProofMode,
+  isTeeProof,
+  type VerificationPolicy,
+} from "../src/index.js";
+import { cloneProof, createTestClient } from "./helpers.js";
+
+describe("verification policies", () => {
+  const setup = async (now?: () => number) => {
+    const { backend, client } = createTestClient(now ? { now } : {});
+    const result = await client.generate({
+      prompt: "Hi",
+      proofOptions: { useTee: true },
+    });
+    const verify = (policy: VerificationPolicy, proof = result.proof) =>
+      client.verify({ ...result, proof }, { backend, policy });
+    return { backend, result, verify };
+  };
+
+  it("passes a proof meeting every rule", async () => {
+    const { backend, verify } = await setup();
+    const verification = await verify({
+      maxAgeSeconds: 60,
+      allowedModels: ["claude-3-5-sonnet-20241022"],
+      allowedWitnessIds: [backend.witnessAddress],
+      allowedSigners: [backend.witnessAddress],
+      requiredOriginHost: "api.anthropic.com",
+      requireTee: true,
+      teeSigners: [backend.witnessAddress],
+      minSignatures: 1,
+    });
+    expect(verification.policy?.failed).toEqual([]);
+    expect(verification.isValid).toBe(true);
+  });
+
+  it("counts duplicated signatures once", async () => {
+    const { result, verify } = await setup();
+    const proof = cloneProof(result.proof);
+    proof.signatures = [proof.signatures[0], proof.signatures[0], proof.signatures[0]];
+
+    const verification = await verify({ minSignatures: 2 }, proof);
+    expect(verification.isValid).toBe(false);
+    expect(verification.policy?.failed.map((r) => r.rule)).toEqual(["minSignatures"]);
+  });
+
+  it("checks witness ids against the recovered signers", async () => {
+    const { result, verify } = await setup();
+    const trusted = "0x" + "11".repeat(20);
+    const proof = cloneProof(result.proof);
+    proof.witnesses = [{ id: trusted, url: proof.witnesses[0].url }];
+
+    const verification = await verify({ allowedWitnessIds: [trusted] }, proof);
+    expect(verification.policy?.failed.map((r) => r.rule)).toEqual(["allowedWitnessIds"]);
+  });
+
+  it("decides TEE mode by signer, not by the witness URL", async () => {
+    const { backend, result, verify } = await setup();
+    expect(result.proof.witnesses[0].url).toBe(TEE_ATTESTOR_URLS[0]);
+    expect(getProofMode(result.proof)).toBe("tee");
+
+    // The URL alone is unsigned and proves nothing
+    expect(isTeeProof(result.proof, [])).toBe(false);
+    const unconfigured = await verify({ requireTee: true });
+    expect(unconfigured.policy?.failed.map((r) => r.rule)).toEqual(["requireTee"]);
+
+    const otherAttestor = await verify({
+      requireTee: true,
+      teeSigners: ["0x" + "22".repeat(20)],
+    });
+    expect(otherAttestor.isValid).toBe(false);
+
+    const trusted = await verify({
+      requireTee: true,
+      teeSigners: [backend.witnessAddress],
+    });
+    expect(trusted.isValid).toBe(true);
+  });
+
+  it("rejects claims dated in the future", async () => {
+    const { verify } = await setup(() => Date.now() + 3600_000);
+    const verification = await verify({ maxAgeSeconds: 86400 });
+    expect(verification.isValid).toBe(false);
+    expect(verification.policy?.failed[0].detail).toMatch(/in the future/);
+  });
+
+  it("rejects claims older than maxAgeSeconds", async () => {
+    const { verify } = await setup(() => Date.now() - 3600_000);
+    const verification = await verify({ maxAgeSeconds: 60 });
+    expect(verification.policy?.failed.map((r) => r.rule)).toEqual(["maxAge"]);
+  });
+});
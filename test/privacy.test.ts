@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_MODEL,
+  VerifiableClaude,
+  buildDisclosedResponse,
+  getClaimIdentifier,
+  parseJsonPath,
+  verifyClaudeProof,
+  verifyPromptReveal,
+} from "../src/index.js";
+import { anthropicMessage, cloneProof, createTestClient } from "./helpers.js";
+
+const PROMPT = "Summarize ticket #4411 for Jane Doe";
+
+describe("private prompts", () => {
+  it("proves a committed prompt without revealing it", async () => {
+    const { backend, client } = createTestClient();
+    const result = await client.generate({ prompt: PROMPT, privatePrompt: true });
+    const serialized = client.serializeResult(result);
+
+    expect(serialized.proofJson).not.toContain("Jane Doe");
+    const verification = await VerifiableClaude.verifySerializedProof(serialized, {
+      backend,
+    });
+    expect(verification.isValid).toBe(true);
+    expect(verifyPromptReveal(serialized, result.promptReveal!).isValid).toBe(true);
+  });
+
+  it("rejects a reveal of another prompt", async () => {
+    const { client } = createTestClient();
+    const result = await client.generate({ prompt: PROMPT, privatePrompt: true });
+    const reveal = {
+      ...result.promptReveal!,
+      messages: [{ role: "user", content: "Summarize ticket #4412 for John Roe" }],
+    };
+
+    const check = verifyPromptReveal(client.serializeResult(result), reveal);
+    expect(check).toMatchObject({
+      isValid: false,
+      error: "Reveal does not match the commitment",
+    });
+  });
+});
+
+describe("selective disclosure", () => {
+  it("proves only the disclosed fields", async () => {
+    const { backend, client } = createTestClient({
+      respond: (request) =>
+        anthropicMessage(request, {
+          content: [{ type: "text", text: "Confidential analysis" }],
+        }),
+    });
+    const result = await client.generate({
+      prompt: "Hi",
+      disclose: ["model", "stop_reason"],
+    });
+
+    expect(result.disclosed).toEqual({
+      model: DEFAULT_MODEL,
+      stop_reason: "end_turn",
+    });
+    const serialized = client.serializeResult(result);
+    expect(serialized.proofJson).not.toContain("Confidential analysis");
+    const verification = await VerifiableClaude.verifySerializedProof(serialized, {
+      backend,
+    });
+    expect(verification.isValid).toBe(true);
+  });
+
+  it("never walks a disclosure path onto a prototype", async () => {
+    const { client } = createTestClient();
+    const result = await client.generate({ prompt: "Hi", disclose: ["model"] });
+
+    // An unsigned proof whose redaction targets Object.prototype
+    const proof = cloneProof(result.proof);
+    const parameters = JSON.parse(proof.claimData.parameters);
+    parameters.responseRedactions = [{ jsonPath: "$.__proto__.polluted" }];
+    proof.claimData.parameters = JSON.stringify(parameters);
+    const context = JSON.parse(proof.claimData.context);
+    context.extractedParameters = { __proto___polluted: '"yes"' };
+    proof.claimData.context = JSON.stringify(context);
+    proof.claimData.identifier = getClaimIdentifier(proof.claimData);
+    proof.identifier = proof.claimData.identifier;
+    proof.signatures = ["0x00"];
+    proof.witnesses = [{ id: proof.witnesses[0].id, url: "manual-verify" }];
+
+    const verification = await verifyClaudeProof(
+      proof,
+      { text: "", model: "" },
+      { allowManualVerify: true, policy: { allowedSigners: [proof.witnesses[0].id] } }
+    );
+    expect(verification.isValid).toBe(false);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+
+    expect(() => parseJsonPath("$.__proto__.polluted")).toThrow("not allowed");
+    expect(() => parseJsonPath("$.constructor.prototype")).toThrow("not allowed");
+    const rebuilt = buildDisclosedResponse({ "content[0].text": "Hi" });
+    expect(Object.getPrototypeOf(rebuilt)).toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { LocalProofBackend, VerifiableAnthropic } from "../src/index.js";
+import { anthropicMessage } from "./helpers.js";
+
+function createAnthropic() {
+  const backend = new LocalProofBackend({
+    respond: (request) => anthropicMessage(request),
+  });
+  return { backend, anthropic: new VerifiableAnthropic({ apiKey: "test-key", backend }) };
+}
+
+const PARAMS = {
+  model: "claude-3-5-haiku-20241022",
+  max_tokens: 256,
+  messages: [{ role: "user" as const, content: "Capital of France?" }],
+};
+
+describe("VerifiableAnthropic", () => {
+  it("returns the proven Message with its proof", async () => {
+    const { backend, anthropic } = createAnthropic();
+    const message = await anthropic.messages.create(PARAMS);
+
+    expect(message).toMatchObject({
+      id: "msg_01TEST",
+      type: "message",
+      model: "claude-3-5-haiku-20241022",
+      content: [{ type: "text", text: "The capital of France is Paris." }],
+    });
+    expect(JSON.parse(message.proof.request!.body)).toMatchObject({ max_tokens: 256 });
+    expect((await VerifiableAnthropic.verify(message, { backend })).isValid).toBe(true);
+  });
+
+  it("rejects a message edited after proving", async () => {
+    const { backend, anthropic } = createAnthropic();
+    const message = await anthropic.messages.create(PARAMS);
+    const edited = { ...message, stop_reason: "max_tokens" as const };
+
+    const verification = await VerifiableAnthropic.verify(edited, { backend });
+    expect(verification.isValid).toBe(false);
+    expect(verification.failure?.code).toBe("content_mismatch");
+  });
+
+  it("refuses streaming requests", async () => {
+    const { anthropic } = createAnthropic();
+    const params = { ...PARAMS, stream: true };
+    await expect(
+      anthropic.messages.create(params as unknown as typeof PARAMS)
+    ).rejects.toThrow("Streaming is not supported");
+  });
+});
@@ -0,0 +1,132 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  createProofServer,
+  type ApiErrorEnvelope,
+  type ProofServerOptions,
+  type SerializedProof,
+} from "../src/index.js";
+import { createTestClient } from "./helpers.js";
+
+/**
+ * Body of an API response: `{ data }` or an error envelope
+ */
+type ApiResponseBody = Partial<ApiErrorEnvelope> & {
+  data?: { proof?: SerializedProof; isValid?: boolean };
+};
+
+let server: http.Server | undefined;
+
+afterEach(async () => {
+  await new Promise((resolve) => server?.close(resolve));
+  server = undefined;
+});
+
+async function start(options: Omit<ProofServerOptions, "client">) {
+  const { backend, client } = createTestClient();
+  server = createProofServer({ client, verifyOptions: { backend }, ...options });
+  await new Promise<void>((resolve) => server!.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  const post = async (
+    route: string,
+    body: unknown,
+    headers: Record<string, string> = {}
+  ) => {
+    const response = await fetch(`http://127.0.0.1:${port}${route}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    });
+    return {
+      status: response.status,
+      body: (await response.json()) as ApiResponseBody,
+    };
+  };
+  return { port, post };
+}
+
+const TOKEN = { Authorization: "Bearer secret" };
+const authorize = (req: http.IncomingMessage) =>
+  req.headers.authorization === TOKEN.Authorization;
+
+describe("proof API server", () => {
+  it("answers a malformed proof id with 400", async () => {
+    const { port } = await start({});
+    const response = await fetch(`http://127.0.0.1:${port}/v1/proofs/%E0`);
+    expect(response.status).toBe(400);
+    const body = (await response.json()) as ApiResponseBody;
+    expect(body.error?.type).toBe("invalid_request");
+  });
+
+  it("refuses generation without an authorize hook", async () => {
+    const { post } = await start({});
+    const { status, body } = await post("/v1/generate", { prompt: "Hi" });
+    expect(status).toBe(403);
+    expect(body.error?.type).toBe("forbidden");
+  });
+
+  it("generates for authorized callers and verifies the proof", async () => {
+    const { post } = await start({ authorize });
+    expect((await post("/v1/generate", { prompt: "Hi" })).status).toBe(401);
+
+    const generated = await post("/v1/generate", { prompt: "Hi" }, TOKEN);
+    expect(generated.status).toBe(200);
+    const verified = await post("/v1/verify", generated.body.data?.proof);
+    expect(verified.body.data?.isValid).toBe(true);
+  });
+
+  it("holds generation to the operator's limits", async () => {
+    const { post } = await start({
+      authorize,
+      allowedModels: ["claude-3-5-haiku-20241022"],
+      maxTokens: 256,
+    });
+    const model = "claude-3-5-haiku-20241022";
+
+    const requests = [
+      { prompt: "Hi", model: "claude-3-opus-20240229", maxTokens: 100 },
+      { prompt: "Hi", model, maxTokens: 4096 },
+      { prompt: "Hi", model },
+      { prompt: "Hi", model, maxTokens: 100, proofOptions: { useTee: true } },
+    ];
+    for (const request of requests) {
+      expect((await post("/v1/generate", request, TOKEN)).status).toBe(403);
+    }
+    const allowed = await post(
+      "/v1/generate",
+      { prompt: "Hi", model, maxTokens: 100 },
+      TOKEN
+    );
+    expect(allowed.status).toBe(200);
+  });
+
+  it("answers oversized bodies with 413 and closes the connection", async () => {
+    const { port } = await start({ authorize, maxBodyBytes: 1024 });
+    const response = await new Promise<{ status?: number; connection?: string }>(
+      (resolve, reject) => {
+        const req = http.request(
+          {
+            port,
+            host: "127.0.0.1",
+            method: "POST",
+            path: "/v1/verify",
+            headers: { "Content-Type": "application/json" },
+          },
+          (res) => {
+            res.resume();
+            res.on("end", () =>
+              resolve({ status: res.statusCode, connection: res.headers.connection })
+            );
+          }
+        );
+        req.on("error", reject);
+        // Chunked, so the size is only known while reading
+        req.write("x".repeat(4096));
+        setTimeout(() => req.end("x".repeat(4096)), 20);
+      }
+    );
+    expect(response).toEqual({ status: 413, connection: "close" });
+  });
+});
@@ -0,0 +1,140 @@
+import { mkdtempSync } from "fs";
+import { createRequire } from "module";
+import { tmpdir } from "os";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import {
+  JsonlProofStore,
+  MemoryProofStore,
+  SqliteProofStore,
+  VERIFIER_VERSION,
+  getPromptHash,
+  getVerifyOptionsHash,
+  verifyStoredProof,
+} from "../src/index.js";
+import { createTestClient } from "./helpers.js";
+
+// node:sqlite ships with Node 22 and later; required directly because the
+// test bundler does not resolve it
+function loadSqlite(): typeof import("node:sqlite") | undefined {
+  try {
+    return createRequire(import.meta.url)("node:sqlite");
+  } catch {
+    return undefined;
+  }
+}
+const sqlite = loadSqlite();
+
+async function createSerialized(prompt = "Capital of France?") {
+  const { client } = createTestClient();
+  return client.serializeResult(await client.generate({ prompt }));
+}
+
+describe("proof stores", () => {
+  it("key proofs by content and query them", async () => {
+    const store = new MemoryProofStore();
+    const serialized = await createSerialized();
+    const { id } = await store.put(serialized);
+
+    expect((await store.put(serialized)).id).toBe(id);
+    expect((await store.get(id))?.proof).toEqual(serialized);
+    expect(await store.query({ promptHash: getPromptHash(serialized) })).toHaveLength(1);
+    expect(await store.query({ model: "claude-3-opus-20240229" })).toHaveLength(0);
+    expect(await store.query({ status: "unverified" })).toHaveLength(1);
+  });
+
+  it("reload JSON Lines files with their verification outcomes", async () => {
+    const file = path.join(mkdtempSync(path.join(tmpdir(), "zkproof-")), "proofs.jsonl");
+    const serialized = await createSerialized();
+    const { id } = await new JsonlProofStore(file).put(serialized);
+    await new JsonlProofStore(file).recordVerification(id, {
+      isValid: true,
+      verifiedAt: 1,
+      verifierVersion: VERIFIER_VERSION,
+    });
+
+    const record = await new JsonlProofStore(file).get(id);
+    expect(record?.proof).toEqual(serialized);
+    expect(record?.verification?.isValid).toBe(true);
+  });
+
+  it.skipIf(!sqlite)("index SQLite rows by model and status", async () => {
+    const store = new SqliteProofStore(new sqlite!.DatabaseSync(":memory:"));
+    const serialized = await createSerialized();
+    const other = await createSerialized("Capital of Spain?");
+    const { id } = await store.put(serialized);
+    await store.put(other);
+
+    expect((await store.put(serialized)).id).toBe(id);
+    expect((await store.get(id))?.proof).toEqual(serialized);
+    expect(await store.query({ promptHash: getPromptHash(serialized) })).toHaveLength(1);
+    expect(await store.query({ model: serialized.model, limit: 1 })).toHaveLength(1);
+
+    await store.recordVerification(id, {
+      isValid: false,
+      verifiedAt: 1,
+      verifierVersion: VERIFIER_VERSION,
+    });
+    const invalid = await store.query({ status: "invalid" });
+    expect(invalid.map((record) => record.id)).toEqual([id]);
+    expect(invalid[0].verification?.isValid).toBe(false);
+    expect(await store.query({ status: "unverified" })).toHaveLength(1);
+    await expect(store.recordVerification("missing", invalid[0].verification!))
+      .rejects.toThrow("Proof 'missing' not found");
+  });
+});
+
+describe("verifyStoredProof", () => {
+  // A cached outcome recorded by a lenient caller, with no policy
+  const seed = async () => {
+    const store = new MemoryProofStore();
+    const serialized = await createSerialized();
+    // Fails offline: its identifier no longer matches its claim
+    const proof = JSON.parse(serialized.proofJson);
+    proof.identifier = "0x" + "00".repeat(32);
+    const { id } = await store.put({ ...serialized, proofJson: JSON.stringify(proof) });
+    await store.recordVerification(id, {
+      isValid: true,
+      verifiedAt: 1,
+      verifierVersion: VERIFIER_VERSION,
+      optionsHash: getVerifyOptionsHash({}),
+    });
+    return { store, id };
+  };
+
+  it("reuses an outcome cached with the same options", async () => {
+    const { store, id } = await seed();
+    expect((await verifyStoredProof(store, id)).verifiedAt).toBe(1);
+  });
+
+  it("does not give a strict caller an outcome cached for a lenient one", async () => {
+    const { store, id } = await seed();
+    const strict = await verifyStoredProof(store, id, {
+      policy: { allowedModels: ["claude-3-opus-20240229"] },
+    });
+    expect(strict.isValid).toBe(false);
+    expect(strict.optionsHash).not.toBe(getVerifyOptionsHash({}));
+  });
+
+  it("re-verifies outcomes from older verifier versions", async () => {
+    const { store, id } = await seed();
+    await store.recordVerification(id, {
+      isValid: true,
+      verifiedAt: 1,
+      verifierVersion: "0",
+      optionsHash: getVerifyOptionsHash({}),
+    });
+    expect((await verifyStoredProof(store, id)).isValid).toBe(false);
+  });
+
+  it("never caches outcomes that depend on code or the clock", async () => {
+    const { backend } = createTestClient();
+    expect(getVerifyOptionsHash({ backend })).toBeUndefined();
+    expect(getVerifyOptionsHash({ now: 0 })).toBeUndefined();
+    expect(getVerifyOptionsHash({ policy: { maxAgeSeconds: 60 } })).toBeUndefined();
+
+    const { store, id } = await seed();
+    await verifyStoredProof(store, id, { backend });
+    expect((await store.get(id))?.verification?.verifiedAt).toBe(1);
+  });
+});
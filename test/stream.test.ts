@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import {
+  AnthropicApiError,
+  LocalProofBackend,
+  STREAM_RESPONSE_RULES,
+  compileResponseRules,
+  reconstructStreamText,
+  reconstructStreamedMessage,
+  verifyClaudeProof,
+} from "../src/index.js";
+
+function sse(events: Record<string, unknown>[]): string {
+  return events
+    .map((data) => `event: ${data.type}\ndata: ${JSON.stringify(data)}\n\n`)
+    .join("");
+}
+
+const TRANSCRIPT = sse([
+  {
+    type: "message_start",
+    message: {
+      id: "msg_01STREAM",
+      type: "message",
+      role: "assistant",
+      model: "claude-3-5-haiku-20241022",
+      content: [],
+      stop_reason: null,
+      stop_sequence: null,
+      usage: { input_tokens: 10, output_tokens: 1 },
+    },
+  },
+  { type: "ping" },
+  { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+  { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Par" } },
+  { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "is." } },
+  { type: "content_block_stop", index: 0 },
+  {
+    type: "content_block_start",
+    index: 1,
+    content_block: { type: "tool_use", id: "toolu_01", name: "lookup", input: {} },
+  },
+  {
+    type: "content_block_delta",
+    index: 1,
+    delta: { type: "input_json_delta", partial_json: '{"city":' },
+  },
+  {
+    type: "content_block_delta",
+    index: 1,
+    delta: { type: "input_json_delta", partial_json: '"Paris"}' },
+  },
+  { type: "content_block_stop", index: 1 },
+  {
+    type: "message_delta",
+    delta: { stop_reason: "tool_use", stop_sequence: null },
+    usage: { output_tokens: 12 },
+  },
+  { type: "message_stop" },
+]);
+
+describe("SSE transcripts", () => {
+  it("rebuild the final message", () => {
+    expect(reconstructStreamText(TRANSCRIPT)).toBe("Paris.");
+    expect(reconstructStreamedMessage(TRANSCRIPT)).toMatchObject({
+      id: "msg_01STREAM",
+      content: [
+        { type: "text", text: "Paris." },
+        { type: "tool_use", name: "lookup", input: { city: "Paris" } },
+      ],
+      stop_reason: "tool_use",
+      usage: { input_tokens: 10, output_tokens: 12 },
+    });
+  });
+
+  it("raise an error event as AnthropicApiError", () => {
+    const failed = sse([
+      { type: "message_start", message: { id: "msg_01", content: [] } },
+      { type: "error", error: { type: "overloaded_error", message: "Overloaded" } },
+    ]);
+    expect(() => reconstructStreamedMessage(failed)).toThrow(AnthropicApiError);
+  });
+
+  it("verify against the text rebuilt from a proven transcript", async () => {
+    const backend = new LocalProofBackend({ respond: () => TRANSCRIPT });
+    const proof = await backend.fetchWithProof({
+      url: "https://api.anthropic.com/v1/messages",
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: "claude-3-5-haiku-20241022", stream: true }),
+      secretHeaders: {},
+      ...compileResponseRules(STREAM_RESPONSE_RULES),
+    });
+
+    const model = "claude-3-5-haiku-20241022";
+    const valid = await verifyClaudeProof(proof, { text: "Paris.", model }, { backend });
+    expect(valid.isValid).toBe(true);
+    const edited = await verifyClaudeProof(proof, { text: "Rome.", model }, { backend });
+    expect(edited.failure?.code).toBe("content_mismatch");
+  });
+
+  it("cannot prove a truncated transcript", async () => {
+    const backend = new LocalProofBackend({
+      respond: () => TRANSCRIPT.slice(0, TRANSCRIPT.indexOf("event: message_stop")),
+    });
+    await expect(
+      backend.fetchWithProof({
+        url: "https://api.anthropic.com/v1/messages",
+        method: "POST",
+        headers: {},
+        body: "{}",
+        secretHeaders: {},
+        ...compileResponseRules(STREAM_RESPONSE_RULES),
+      })
+    ).rejects.toThrow();
+  });
+});
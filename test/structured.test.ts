@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+  InvalidOptionsError,
+  StructuredOutputError,
+  verifyStructuredProof,
+  type JsonSchema,
+} from "../src/index.js";
+import { anthropicMessage, createTestClient } from "./helpers.js";
+
+const DECISION_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    action: { enum: ["buy", "sell", "hold"] },
+    size: { type: "number", minimum: 0 },
+  },
+  required: ["action", "size"],
+  additionalProperties: false,
+};
+
+function answering(input: Record<string, unknown>) {
+  return createTestClient({
+    respond: (request) =>
+      anthropicMessage(request, {
+        content: [
+          { type: "tool_use", id: "toolu_01", name: "structured_output", input },
+        ],
+        stop_reason: "tool_use",
+      }),
+  });
+}
+
+describe("structured output", () => {
+  it("returns the output and verifies it from the proof", async () => {
+    const { backend, client } = answering({ action: "buy", size: 5 });
+    const result = await client.generateStructured({ prompt: "Decide" }, DECISION_SCHEMA);
+    expect(result.value).toEqual({ action: "buy", size: 5 });
+
+    const verification = await verifyStructuredProof(
+      client.serializeResult(result),
+      DECISION_SCHEMA,
+      { backend }
+    );
+    expect(verification.isValid).toBe(true);
+    expect(verification.value).toEqual({ action: "buy", size: 5 });
+  });
+
+  it("raises StructuredOutputError for output violating the schema", async () => {
+    const { client } = answering({ action: "short", size: -1 });
+    const error = await client
+      .generateStructured({ prompt: "Decide" }, DECISION_SCHEMA)
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(StructuredOutputError);
+    expect(error.schemaErrors.map((e: { path: string }) => e.path)).toEqual([
+      "/action",
+      "/size",
+    ]);
+  });
+
+  it("fails verification against a stricter verifier schema", async () => {
+    const { backend, client } = answering({ action: "buy", size: 5 });
+    const result = await client.generateStructured({ prompt: "Decide" }, DECISION_SCHEMA);
+
+    const strict: JsonSchema = {
+      ...DECISION_SCHEMA,
+      properties: { ...DECISION_SCHEMA.properties, size: { type: "number", maximum: 1 } },
+    };
+
+    const verification = await verifyStructuredProof(
+      client.serializeResult(result),
+      strict,
+      { backend }
+    );
+    expect(verification.isValid).toBe(false);
+    expect(verification.failure?.code).toBe("schema_violation");
+  });
+
+  it("rejects schemas with keywords it cannot enforce", async () => {
+    const { backend, client } = answering({ action: "buy", size: 5 });
+    const result = await client.generateStructured({ prompt: "Decide" }, DECISION_SCHEMA);
+    const unsupported: JsonSchema = {
+      ...DECISION_SCHEMA,
+      properties: {
+        ...DECISION_SCHEMA.properties,
+        size: { type: "number", exclusiveMinimum: 0 } as JsonSchema,
+      },
+    };
+
+    await expect(
+      client.generateStructured({ prompt: "Decide" }, unsupported)
+    ).rejects.toThrow(InvalidOptionsError);
+    await expect(
+      verifyStructuredProof(client.serializeResult(result), unsupported, { backend })
+    ).rejects.toThrow(/exclusiveMinimum/);
+  });
+});
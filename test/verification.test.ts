@@ -0,0 +1,178 @@
+import { describe, expect, it } from "vitest";
+import { ethers } from "ethers";
+import {
+  AnthropicApiError,
+  AuditLogError,
+  VerifiableClaude,
+  getAnthropicError,
+  getClaimIdentifier,
+  getClaimSignData,
+  type AuditLog,
+  type ClaudeModel,
+  type SerializedClaudeProof,
+} from "../src/index.js";
+import { anthropicMessage, cloneProof, createTestClient } from "./helpers.js";
+
+describe("generate → serialize → verify", () => {
+  it("verifies an untouched proof", async () => {
+    const { backend, client } = createTestClient();
+    const result = await client.generate({ prompt: "Capital of France?" });
+    expect(result.text).toBe("The capital of France is Paris.");
+
+    const verification = await VerifiableClaude.verifySerializedProof(
+      client.serializeResult(result),
+      { backend }
+    );
+    expect(verification.isValid).toBe(true);
+    expect(verification.attested?.host).toBe("api.anthropic.com");
+  });
+
+  it("rejects edited text, model and request", async () => {
+    const { backend, client } = createTestClient();
+    const serialized = client.serializeResult(
+      await client.generate({ prompt: "Capital of France?" })
+    );
+
+    const tamperedProofs: SerializedClaudeProof[] = [
+      { ...serialized, text: "The capital of France is London." },
+      { ...serialized, model: "claude-3-opus-20240229" },
+      { ...serialized, request: { ...serialized.request!, body: "{}" } },
+    ];
+    for (const tampered of tamperedProofs) {
+      const verification = await VerifiableClaude.verifySerializedProof(tampered, {
+        backend,
+      });
+      expect(verification.isValid).toBe(false);
+      expect(verification.failure?.code).toBe("content_mismatch");
+    }
+  });
+
+  it("rejects a proof whose signed claim was edited", async () => {
+    const { backend, client } = createTestClient();
+    const result = await client.generate({ prompt: "Capital of France?" });
+    const proof = cloneProof(result.proof);
+    proof.claimData.parameters = proof.claimData.parameters.replace("France", "Spain");
+
+    const verification = await client.verify({ ...result, proof }, { backend });
+    expect(verification.signatureValid).toBe(false);
+    expect(verification.failure?.code).toBe("invalid_signature");
+  });
+
+  it("rejects a proof from another witness key", async () => {
+    const { client } = createTestClient();
+    const { backend: other } = createTestClient();
+    const result = await client.generate({ prompt: "Capital of France?" });
+
+    const verification = await client.verify(result, { backend: other });
+    expect(verification.isValid).toBe(false);
+  });
+
+  it("rejects identifiers that do not match the claim", async () => {
+    const { backend, client } = createTestClient();
+    const result = await client.generate({ prompt: "Capital of France?" });
+    const forged = "0x" + "ab".repeat(32);
+
+    for (const field of ["identifier", "claimData"] as const) {
+      const proof = cloneProof(result.proof);
+      if (field === "identifier") {
+        proof.identifier = forged;
+      } else {
+        proof.claimData.identifier = forged;
+      }
+      const verification = await client.verify({ ...result, proof }, { backend });
+      expect(verification.signatureValid).toBe(false);
+    }
+  });
+
+  it("refuses manual-verify witnesses unless allowed from known signers", async () => {
+    const { backend, client } = createTestClient();
+    const result = await client.generate({ prompt: "Capital of France?" });
+
+    // Anyone can sign a claim and name their own key as a manual witness
+    const attacker = ethers.Wallet.createRandom();
+    const proof = cloneProof(result.proof);
+    proof.claimData.owner = attacker.address.toLowerCase();
+    proof.claimData.identifier = getClaimIdentifier(proof.claimData);
+    proof.identifier = proof.claimData.identifier;
+    proof.signatures = [await attacker.signMessage(getClaimSignData(proof.claimData))];
+    proof.witnesses = [{ id: attacker.address.toLowerCase(), url: "manual-verify" }];
+
+    const verification = await VerifiableClaude.verifySerializedProof(
+      client.serializeResult({ ...result, proof })
+    );
+    expect(verification.isValid).toBe(false);
+    expect(verification.failure?.code).toBe("invalid_signature");
+
+    // Allowing them without a signer allowlist would accept any key
+    const serialized = client.serializeResult({ ...result, proof });
+    const unrestricted = await VerifiableClaude.verifySerializedProof(serialized, {
+      allowManualVerify: true,
+    });
+    expect(unrestricted.isValid).toBe(false);
+    expect(unrestricted.failure?.code).toBe("verifier_error");
+
+    const restricted = await VerifiableClaude.verifySerializedProof(serialized, {
+      allowManualVerify: true,
+      policy: { allowedSigners: [backend.witnessAddress] },
+    });
+    expect(restricted.isValid).toBe(false);
+    expect(restricted.failure?.code).toBe("policy_violation");
+  });
+});
+
+describe("generated results", () => {
+  it("take the model from the proven response", async () => {
+    const { backend, client } = createTestClient({
+      respond: (request) =>
+        anthropicMessage(request, { model: "claude-3-5-sonnet-20241022" }),
+    });
+    const result = await client.generate({
+      prompt: "Hi",
+      model: "claude-3-5-sonnet-latest" as ClaudeModel,
+    });
+
+    expect(result.model).toBe("claude-3-5-sonnet-20241022");
+    expect((await client.verify(result, { backend })).isValid).toBe(true);
+  });
+
+  it("raise proven Anthropic error bodies as AnthropicApiError", async () => {
+    const body = {
+      type: "error",
+      error: { type: "overloaded_error", message: "Overloaded" },
+      request_id: "req_01",
+    };
+    const { client } = createTestClient({ respond: () => JSON.stringify(body) });
+
+    const error = await client.generate({ prompt: "Hi" }).catch((e) => e);
+    expect(error).toBeInstanceOf(AnthropicApiError);
+    expect(error.code).toBe("api_overloaded");
+    expect(error.retryable).toBe(true);
+    expect(error.requestId).toBe("req_01");
+    expect(error.cause).toEqual(body);
+  });
+
+  it("do not retry unknown Anthropic error types", () => {
+    const error = getAnthropicError({
+      type: "error",
+      error: { type: "billing_error", message: "No credit" },
+    });
+    expect(error?.code).toBe("api_error");
+    expect(error?.retryable).toBe(false);
+  });
+
+  it("keep the proof when the audit log cannot be written", async () => {
+    const { backend } = createTestClient();
+    const auditLog: AuditLog = {
+      append: async () => {
+        throw new Error("disk full");
+      },
+      entries: async () => [],
+    };
+    const client = new VerifiableClaude({ apiKey: "test-key", backend, auditLog });
+
+    const error = await client.generate({ prompt: "Hi" }).catch((e) => e);
+    expect(error).toBeInstanceOf(AuditLogError);
+    expect(error.code).toBe("audit_log_failed");
+    expect((await client.verify(error.result, { backend })).isValid).toBe(true);
+  });
+});